@@ -5,6 +5,7 @@ import "forge-std/Script.sol";
 import "../src/MiniDexFactory.sol";
 import "../src/Router.sol";
 import "../src/TokenFactory.sol";
+import "../src/Multicall.sol";
 
 contract DeployProtocol is Script {
     function run() public {
@@ -24,6 +25,10 @@ contract DeployProtocol is Script {
         TokenFactory tokenFactory = new TokenFactory();
         console.log("TokenFactory deployed at:", address(tokenFactory));
 
+        // Deploy Multicall for batched frontend reads
+        Multicall multicall = new Multicall();
+        console.log("Multicall deployed at:", address(multicall));
+
         vm.stopBroadcast();
     }
 } 
\ No newline at end of file
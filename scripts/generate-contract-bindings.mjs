@@ -0,0 +1,175 @@
+// Generates typed ethers v5 bindings in src/contracts from the Foundry build artifacts.
+// Usage: forge build && node scripts/generate-contract-bindings.mjs [outDir]
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const OUT_DIR = process.argv[2] || "out";
+const TARGET_DIR = "src/contracts";
+
+// Artifacts are written by forge as out/<File>.sol/<Contract>.json
+const CONTRACTS = [
+  { file: "MiniDexFactory.sol", name: "MiniDexFactory" },
+  { file: "MiniDexPair.sol", name: "MiniDexPair" },
+  { file: "Router.sol", name: "Router" },
+  { file: "TokenFactory.sol", name: "TokenFactory" },
+  { file: "TokenFactory.sol", name: "SimpleERC20" },
+  { file: "Multicall.sol", name: "Multicall" },
+];
+
+const HEADER = "// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.\n";
+
+function lowerFirst(name) {
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+function structType(components, mapType) {
+  return `{ ${components.map(c => `${c.name}: ${mapType(c)}`).join("; ")} }`;
+}
+
+// Types accepted by ethers when encoding arguments
+function inputType(param) {
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) return `${inputType({ ...param, type: arrayMatch[1] })}[]`;
+  if (param.type === "tuple") return structType(param.components, inputType);
+  if (param.type.startsWith("uint") || param.type.startsWith("int")) return "BigNumberish";
+  if (param.type === "bool") return "boolean";
+  if (param.type.startsWith("bytes")) return "BytesLike";
+  return "string";
+}
+
+// Types returned by ethers when decoding results; integers up to 48 bits fit in a JS number
+function outputType(param) {
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) return `${outputType({ ...param, type: arrayMatch[1] })}[]`;
+  if (param.type === "tuple") return structType(param.components, outputType);
+  const intMatch = param.type.match(/^u?int(\d*)$/);
+  if (intMatch) return Number(intMatch[1] || 256) <= 48 ? "number" : "BigNumber";
+  if (param.type === "bool") return "boolean";
+  return "string";
+}
+
+function returnType(outputs) {
+  if (outputs.length === 0) return "void";
+  if (outputs.length === 1) return outputType(outputs[0]);
+
+  // Multiple outputs decode to a Result that is both an array and a record of named values
+  const tuple = `[${outputs.map(outputType).join(", ")}]`;
+  const named = outputs.filter(o => o.name);
+  return named.length > 0 ? `${tuple} & ${structType(named, outputType)}` : tuple;
+}
+
+function params(inputs) {
+  return inputs.map((input, i) => `${input.name || `arg${i}`}: ${inputType(input)}`);
+}
+
+function signature(fn, result, overrides) {
+  const args = [...params(fn.inputs), `overrides?: ${overrides}`];
+  return `${fn.name}(${args.join(", ")}): Promise<${result}>;`;
+}
+
+// contract.functions always resolves to a Result array, even for a single output
+function functionsResultType(outputs) {
+  const tuple = `[${outputs.map(outputType).join(", ")}]`;
+  const named = outputs.filter(o => o.name);
+  return named.length > 0 ? `${tuple} & ${structType(named, outputType)}` : tuple;
+}
+
+// Only indexed arguments can be filtered on; null matches anything
+function filterSignature(event) {
+  const args = event.inputs.map((input, i) =>
+    `${input.name || `arg${i}`}?: ${input.indexed ? `${inputType(input)} | null` : "null"}`);
+  return `${event.name}(${args.join(", ")}): EventFilter;`;
+}
+
+function transactionOverrides(fn) {
+  return fn.stateMutability === "payable" ? "PayableOverrides" : "Overrides";
+}
+
+function generate(name, abi) {
+  const functions = abi.filter(item => item.type === "function");
+  const events = abi.filter(item => item.type === "event");
+  const isView = fn => fn.stateMutability === "view" || fn.stateMutability === "pure";
+
+  const lines = [
+    HEADER,
+    'import { BaseContract, BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, PopulatedTransaction, Signer, providers } from "ethers";',
+    "",
+    `export const ${lowerFirst(name)}Abi = ${JSON.stringify(abi, null, 2)};`,
+    "",
+  ];
+
+  for (const event of events) {
+    lines.push(`export interface ${name}${event.name}EventArgs {`);
+    event.inputs.forEach((input, i) => {
+      lines.push(`  ${input.name || `arg${i}`}: ${outputType(input)};`);
+    });
+    lines.push("}", "");
+  }
+
+  // BaseContract rather than Contract: Contract's `[key: string]: any` would let misspelled or removed methods compile
+  lines.push(`export interface ${name} extends BaseContract {`);
+  lines.push(
+    "  connect(signerOrProvider: Signer | providers.Provider | string): this;",
+    "  attach(addressOrName: string): this;",
+    "  deployed(): Promise<this>;",
+    ""
+  );
+  for (const fn of functions) {
+    lines.push(isView(fn)
+      ? `  ${signature(fn, returnType(fn.outputs), "CallOverrides")}`
+      : `  ${signature(fn, "ContractTransaction", transactionOverrides(fn))}`);
+  }
+
+  lines.push("", "  functions: {");
+  for (const fn of functions) {
+    lines.push(isView(fn)
+      ? `    ${signature(fn, functionsResultType(fn.outputs), "CallOverrides")}`
+      : `    ${signature(fn, "ContractTransaction", transactionOverrides(fn))}`);
+  }
+  lines.push("  };");
+
+  // Every function can be simulated, returning its decoded result instead of sending a transaction
+  lines.push("", "  callStatic: {");
+  for (const fn of functions) {
+    lines.push(`    ${signature(fn, returnType(fn.outputs), "CallOverrides")}`);
+  }
+  lines.push("  };", "", "  estimateGas: {");
+  for (const fn of functions) {
+    lines.push(`    ${signature(fn, "BigNumber", transactionOverrides(fn))}`);
+  }
+  lines.push("  };", "", "  populateTransaction: {");
+  for (const fn of functions) {
+    lines.push(`    ${signature(fn, "PopulatedTransaction", transactionOverrides(fn))}`);
+  }
+  if (events.length === 0) {
+    lines.push("  };", "", "  filters: Record<string, never>;", "}", "");
+  } else {
+    lines.push("  };", "", "  filters: {");
+    for (const event of events) {
+      lines.push(`    ${filterSignature(event)}`);
+    }
+    lines.push("  };", "}", "");
+  }
+
+  lines.push(
+    `export function get${name}(address: string, signerOrProvider: Signer | providers.Provider): ${name} {`,
+    `  return new Contract(address, ${lowerFirst(name)}Abi, signerOrProvider) as unknown as ${name};`,
+    "}",
+    ""
+  );
+
+  return lines.join("\n");
+}
+
+mkdirSync(TARGET_DIR, { recursive: true });
+
+for (const { file, name } of CONTRACTS) {
+  const artifact = JSON.parse(readFileSync(join(OUT_DIR, file, `${name}.json`), "utf8"));
+  writeFileSync(join(TARGET_DIR, `${name}.ts`), generate(name, artifact.abi));
+  console.log(`Generated ${TARGET_DIR}/${name}.ts`);
+}
+
+writeFileSync(
+  join(TARGET_DIR, "index.ts"),
+  HEADER + "\n" + CONTRACTS.map(({ name }) => `export * from "./${name}";`).join("\n") + "\n"
+);
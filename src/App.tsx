@@ -5,7 +5,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Web3Provider } from "@/hooks/useWeb3Provider";
+import { DeploymentProvider } from "@/hooks/useDeployment";
+import { TransactionSettingsProvider } from "@/hooks/useTransactionSettings";
+import { TransactionProvider } from "@/hooks/useTransaction";
 import Index from "./pages/Index";
+import Portfolio from "./pages/Portfolio";
+import Pool from "./pages/Pool";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -14,15 +19,23 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Web3Provider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <DeploymentProvider>
+          <TransactionSettingsProvider>
+            <TransactionProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/portfolio" element={<Portfolio />} />
+                  <Route path="/pool/:pairAddress" element={<Pool />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TransactionProvider>
+          </TransactionSettingsProvider>
+        </DeploymentProvider>
       </Web3Provider>
     </TooltipProvider>
   </QueryClientProvider>
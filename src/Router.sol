@@ -151,6 +151,27 @@ contract Router {
         
         return amounts;
     }
+
+    // Swap tokens for exact tokens
+    function swapTokensForExactTokens(
+        uint amountOut,
+        uint amountInMax,
+        address[] calldata path,
+        address to,
+        uint deadline
+    ) external returns (uint[] memory amounts) {
+        require(deadline >= block.timestamp, "Router: EXPIRED");
+        require(path.length >= 2, "Router: INVALID_PATH");
+        
+        amounts = getAmountsIn(amountOut, path);
+        // Only the first hop is paid by the caller, so the limit applies to its input alone
+        require(amounts[0] <= amountInMax, "Router: EXCESSIVE_INPUT_AMOUNT");
+        
+        // Execute swaps
+        _swap(amounts, path, to);
+        
+        return amounts;
+    }
     
     function _getAmountOut(uint amountIn, uint reserveIn, uint reserveOut) internal pure returns (uint amountOut) {
         require(amountIn > 0, "Router: INSUFFICIENT_INPUT_AMOUNT");
@@ -164,7 +185,7 @@ contract Router {
     
     function _getAmountIn(uint amountOut, uint reserveIn, uint reserveOut) internal pure returns (uint amountIn) {
         require(amountOut > 0, "Router: INSUFFICIENT_OUTPUT_AMOUNT");
-        require(reserveIn > 0 && reserveOut > 0, "Router: INSUFFICIENT_LIQUIDITY");
+        require(reserveIn > 0 && reserveOut > amountOut, "Router: INSUFFICIENT_LIQUIDITY");
         
         uint numerator = reserveIn * amountOut * 1000;
         uint denominator = (reserveOut - amountOut) * 997;
@@ -180,7 +201,10 @@ contract Router {
             address to = i < path.length - 2 ? MiniDexFactory(factory).getPair(output, path[i + 2]) : _to;
             
             address pair = MiniDexFactory(factory).getPair(input, output);
-            IERC20(input).transferFrom(msg.sender, pair, amounts[i]);
+            // Only the first hop is paid by the caller; each later pair already holds the previous pair's output
+            if (i == 0) {
+                IERC20(input).transferFrom(msg.sender, pair, amounts[0]);
+            }
             MiniDexPair(pair).swap(amount0Out, amount1Out, to);
         }
     }
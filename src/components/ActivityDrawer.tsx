@@ -0,0 +1,119 @@
+import { Ban, CheckCircle2, ExternalLink, History, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { getExplorerTxUrl } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useTransaction } from "@/hooks/useTransaction";
+import { TransactionStatus } from "@/lib/transactions";
+
+const shortenHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+function StatusIcon({ status }: { status: TransactionStatus }) {
+  if (status === "pending") return <Loader2 className="h-4 w-4 animate-spin text-yellow-400" />;
+  if (status === "confirmed") return <CheckCircle2 className="h-4 w-4 text-green-400" />;
+  if (status === "dropped") return <Ban className="h-4 w-4 text-gray-400" />;
+  return <XCircle className="h-4 w-4 text-red-400" />;
+}
+
+export function ActivityDrawer() {
+  const { account, chainId } = useWeb3Provider();
+  const { transactions, pendingCount, clearHistory } = useTransaction();
+
+  if (!account) return null;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative border-gray-600 bg-gray-800 hover:bg-gray-700"
+          title="Recent activity"
+        >
+          {pendingCount > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin text-yellow-400" />
+          ) : (
+            <History className="h-4 w-4" />
+          )}
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-purple-600 px-1 text-[10px] font-semibold">
+              {pendingCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="bg-gray-900 border-gray-700 text-white flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-purple-300">Recent Activity</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Transactions sent from this account on the current network
+          </SheetDescription>
+        </SheetHeader>
+
+        {transactions.length > 0 ? (
+          <div className="flex-1 space-y-2 overflow-y-auto mt-4">
+            {transactions.map(tx => {
+              const explorerUrl = getExplorerTxUrl(chainId, tx.hash);
+              return (
+                <div key={tx.hash} className="flex items-start gap-3 bg-gray-800 rounded-md p-3 text-sm">
+                  <div className="pt-0.5" title={tx.status}>
+                    <StatusIcon status={tx.status} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{tx.summary}</div>
+                    <div className="text-xs text-gray-400 flex justify-between gap-2">
+                      {explorerUrl ? (
+                        <a
+                          href={explorerUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="font-mono flex items-center gap-1 hover:text-purple-300"
+                          title={tx.hash}
+                        >
+                          {shortenHash(tx.hash)}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        <span className="font-mono" title={tx.hash}>{shortenHash(tx.hash)}</span>
+                      )}
+                      <span>{formatTime(tx.submittedAt)}</span>
+                    </div>
+                    {tx.status === "dropped" && (
+                      <div className="text-xs text-gray-500">Dropped: it was never mined</div>
+                    )}
+                    {tx.replacedHash && (
+                      <div className="text-xs text-gray-500" title={tx.replacedHash}>
+                        Sped up, replaces {shortenHash(tx.replacedHash)}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="flex-1 text-center text-gray-400 py-8 text-sm">No transactions yet</div>
+        )}
+
+        <Button
+          variant="outline"
+          className="mt-4 border-gray-600 bg-gray-800 hover:bg-gray-700"
+          disabled={transactions.length === pendingCount}
+          onClick={clearHistory}
+        >
+          Clear history
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,19 +1,30 @@
 
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ethers } from "ethers";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Form } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
-import { Loader2 } from "lucide-react";
+import { AlertTriangle, Loader2 } from "lucide-react";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
 
 import { useLiquidityPools } from "@/hooks/useLiquidityPools";
 import { useTokenBalances } from "@/hooks/useTokenBalances";
-import { useAddLiquidity } from "@/hooks/useAddLiquidity";
+import { usePairReserves } from "@/hooks/usePairReserves";
+import { AddLiquidityResult, useAddLiquidity } from "@/hooks/useAddLiquidity";
+import { Simulate, useSimulation } from "@/hooks/useSimulation";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
 import { PoolList } from "@/components/liquidity/PoolList";
 import { TokenInputField } from "@/components/liquidity/TokenInputField";
 import { LiquiditySummary } from "@/components/liquidity/LiquiditySummary";
+import {
+  AddLiquidityPreview,
+  LP_TOKEN_DECIMALS,
+  getAddLiquidityPreview,
+  quoteLiquidityAmount
+} from "@/lib/liquidity";
+import { parseTokenAmount, toExact, tokenAmount } from "@/lib/tokenAmount";
 
 const formSchema = z.object({
   tokenA: z.string().min(42, {
@@ -30,15 +41,27 @@ const formSchema = z.object({
   }),
 });
 
-export function AddLiquidity() {
+type AmountField = "amountA" | "amountB";
+
+interface AddLiquidityProps {
+  // Prefill from a link, e.g. the pool page's "Add liquidity" shortcut
+  defaultTokenA?: string;
+  defaultTokenB?: string;
+}
+
+export function AddLiquidity({ defaultTokenA = "", defaultTokenB = "" }: AddLiquidityProps) {
   const { provider, signer, account } = useWeb3Provider();
-  const [selectedPool, setSelectedPool] = useState<string | null>(null);
+  const [selectedPool, setSelectedPool] = useState<string | null>(
+    defaultTokenA && defaultTokenB ? `${defaultTokenA}-${defaultTokenB}` : null
+  );
+  // The amount the user typed last; the other one follows the pool's reserve ratio
+  const [independentField, setIndependentField] = useState<AmountField>("amountA");
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      tokenA: "",
-      tokenB: "",
+      tokenA: defaultTokenA,
+      tokenB: defaultTokenB,
       amountA: "",
       amountB: "",
     },
@@ -46,6 +69,13 @@ export function AddLiquidity() {
 
   const watchTokenA = form.watch("tokenA");
   const watchTokenB = form.watch("tokenB");
+  const watchAmountA = form.watch("amountA");
+  const watchAmountB = form.watch("amountB");
+  const { slippage } = useTransactionSettings();
+
+  // A fresh array each render would refetch balances forever, so key the list on its contents
+  const tokenKey = [watchTokenA, watchTokenB].filter(Boolean).join(",");
+  const tokenAddresses = useMemo(() => (tokenKey ? tokenKey.split(",") : []), [tokenKey]);
 
   // Custom hooks
   const { 
@@ -59,14 +89,11 @@ export function AddLiquidity() {
   const { 
     tokenBalances, 
     isLoading: balancesLoading 
-  } = useTokenBalances(
-    [watchTokenA, watchTokenB].filter(Boolean), 
-    provider, 
-    account
-  );
+  } = useTokenBalances(tokenAddresses, provider, account);
   
   const { 
     addLiquidity, 
+    simulateAddLiquidity,
     isAdding, 
     error: addLiquidityError 
   } = useAddLiquidity();
@@ -74,14 +101,100 @@ export function AddLiquidity() {
   const tokenABalance = watchTokenA ? tokenBalances[watchTokenA] : null;
   const tokenBBalance = watchTokenB ? tokenBalances[watchTokenB] : null;
 
+  const tokenASymbol = tokenABalance?.symbol || "Token A";
+  const tokenBSymbol = tokenBBalance?.symbol || "Token B";
+
+  const { pair } = usePairReserves(watchTokenA, watchTokenB);
+  const isInitialDeposit = !!pair && pair.reserveA.isZero() && pair.reserveB.isZero();
+
+  // Router._addLiquidity only pulls the optimal ratio, so fill in the paired amount instead of letting the excess sit approved
+  const fillPairedAmount = useCallback((field: AmountField, value: string) => {
+    if (!pair || isInitialDeposit || !tokenABalance || !tokenBBalance) return;
+
+    const [typedToken, pairedToken, reserveIn, reserveOut] = field === "amountA"
+      ? [tokenABalance, tokenBBalance, pair.reserveA, pair.reserveB]
+      : [tokenBBalance, tokenABalance, pair.reserveB, pair.reserveA];
+    const typed = parseTokenAmount(typedToken, value);
+
+    form.setValue(
+      field === "amountA" ? "amountB" : "amountA",
+      typed && !typed.raw.isZero() ? toExact(quoteLiquidityAmount(typed, reserveIn, reserveOut, pairedToken)) : ""
+    );
+  }, [pair, isInitialDeposit, tokenABalance, tokenBBalance, form]);
+
+  // Read through a ref so balance refetches and reserve updates don't re-run the fill below
+  const fillPairedAmountRef = useRef(fillPairedAmount);
+  fillPairedAmountRef.current = fillPairedAmount;
+
+  const independentValue = independentField === "amountA" ? watchAmountA : watchAmountB;
+
+  // Only the typed amount drives the paired one, so setting it can't feed back into this effect
+  useEffect(() => {
+    fillPairedAmountRef.current(independentField, independentValue);
+  }, [independentField, independentValue]);
+
+  const handleAmountChange = (field: AmountField) => () => {
+    setIndependentField(field);
+  };
+
+  const preview = useMemo<AddLiquidityPreview | null>(() => {
+    if (!pair || !tokenABalance || !tokenBBalance) return null;
+
+    return getAddLiquidityPreview(
+      parseTokenAmount(tokenABalance, watchAmountA),
+      parseTokenAmount(tokenBBalance, watchAmountB),
+      tokenAmount(tokenABalance, pair.reserveA),
+      tokenAmount(tokenBBalance, pair.reserveB),
+      pair.totalSupply,
+      { address: pair.pairAddress ?? ethers.constants.AddressZero, symbol: "LP", decimals: LP_TOKEN_DECIMALS }
+    );
+  }, [pair, tokenABalance, tokenBBalance, watchAmountA, watchAmountB]);
+
+  // Preview the deposit once both tokens and amounts are filled in
+  const simulate = useMemo<Simulate<AddLiquidityResult> | null>(() => {
+    const amountA = parseFloat(watchAmountA);
+    const amountB = parseFloat(watchAmountB);
+    if (!tokenABalance || !tokenBBalance || !(amountA > 0) || !(amountB > 0)) return null;
+
+    return () => simulateAddLiquidity({
+      tokenA: watchTokenA,
+      tokenB: watchTokenB,
+      amountA: watchAmountA,
+      amountB: watchAmountB,
+      tokenASymbol,
+      tokenBSymbol,
+      provider,
+      signer,
+      account
+    });
+  }, [
+    watchTokenA,
+    watchTokenB,
+    watchAmountA,
+    watchAmountB,
+    tokenABalance,
+    tokenBBalance,
+    tokenASymbol,
+    tokenBSymbol,
+    provider,
+    signer,
+    account,
+    simulateAddLiquidity
+  ]);
+
+  const addLiquiditySimulation = useSimulation(
+    ["addLiquidity", account, watchTokenA, watchTokenB, watchAmountA, watchAmountB, slippage],
+    simulate
+  );
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
     const success = await addLiquidity({
       tokenA: values.tokenA,
       tokenB: values.tokenB,
       amountA: values.amountA,
       amountB: values.amountB,
-      tokenASymbol: tokenABalance?.symbol || "Token A",
-      tokenBSymbol: tokenBBalance?.symbol || "Token B",
+      tokenASymbol,
+      tokenBSymbol,
       provider,
       signer,
       account
@@ -103,12 +216,14 @@ export function AddLiquidity() {
   const setMaxAmountA = () => {
     if (tokenABalance) {
       form.setValue('amountA', tokenABalance.balance);
+      setIndependentField('amountA');
     }
   };
   
   const setMaxAmountB = () => {
     if (tokenBBalance) {
       form.setValue('amountB', tokenBBalance.balance);
+      setIndependentField('amountB');
     }
   };
 
@@ -127,6 +242,19 @@ export function AddLiquidity() {
               onSelectPool={handlePoolSelect}
             />
             
+            {isInitialDeposit && (
+              <div className="flex items-start gap-2 p-3 bg-yellow-900/30 border border-yellow-700/40 rounded-md text-yellow-200 text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div>
+                  <div className="font-medium">You are setting the initial price</div>
+                  <div className="text-yellow-200/80">
+                    This pool has no liquidity yet, so the ratio of the two amounts becomes its starting price.
+                    A price far from the market will be arbitraged away at your expense.
+                  </div>
+                </div>
+              </div>
+            )}
+
             <TokenInputField
               form={form}
               name="tokenA"
@@ -135,6 +263,7 @@ export function AddLiquidity() {
               tokenBalance={tokenABalance}
               isLoading={balancesLoading && !!watchTokenA && !tokenABalance}
               onMaxClick={setMaxAmountA}
+              onAmountChange={handleAmountChange('amountA')}
             />
             
             <TokenInputField
@@ -145,11 +274,12 @@ export function AddLiquidity() {
               tokenBalance={tokenBBalance}
               isLoading={balancesLoading && !!watchTokenB && !tokenBBalance}
               onMaxClick={setMaxAmountB}
+              onAmountChange={handleAmountChange('amountB')}
             />
             
             <Button 
               type="submit" 
-              disabled={isAdding || !account}
+              disabled={isAdding || !account || !!addLiquiditySimulation.error}
               className="w-full bg-purple-600 hover:bg-purple-700"
             >
               {isAdding ? (
@@ -169,6 +299,8 @@ export function AddLiquidity() {
         <LiquiditySummary
           tokenABalance={tokenABalance}
           tokenBBalance={tokenBBalance}
+          preview={preview}
+          simulation={simulate ? addLiquiditySimulation : null}
           error={addLiquidityError}
         />
       </div>
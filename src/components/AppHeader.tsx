@@ -0,0 +1,46 @@
+import { NavLink } from "react-router-dom";
+import { WalletConnect } from "@/components/WalletConnect";
+import { SettingsPanel } from "@/components/SettingsPanel";
+import { ApprovalsPanel } from "@/components/ApprovalsPanel";
+import { ActivityDrawer } from "@/components/ActivityDrawer";
+import { NetworkBadge } from "@/components/NetworkBadge";
+import { cn } from "@/lib/utils";
+
+const NAV_LINKS = [
+  { to: "/", label: "Trade" },
+  { to: "/portfolio", label: "Portfolio" },
+];
+
+export function AppHeader() {
+  return (
+    <header className="border-b border-gray-700 bg-gray-900/80 backdrop-blur-sm sticky top-0 z-10">
+      <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+        <div className="flex items-center space-x-6">
+          <h1 className="text-2xl font-bold text-purple-400">MiniDex</h1>
+          <nav className="flex items-center space-x-4 text-sm">
+            {NAV_LINKS.map(link => (
+              <NavLink
+                key={link.to}
+                to={link.to}
+                end
+                className={({ isActive }) => cn(
+                  "hover:text-purple-300",
+                  isActive ? "text-purple-300 font-medium" : "text-gray-400"
+                )}
+              >
+                {link.label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
+        <div className="flex items-center space-x-2">
+          <NetworkBadge />
+          <ActivityDrawer />
+          <ApprovalsPanel />
+          <SettingsPanel />
+          <WalletConnect />
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useRouterAllowances } from "@/hooks/useRouterAllowances";
+import { useTokenApproval } from "@/hooks/useTokenApproval";
+import { formatTokenAmount } from "@/lib/tokenAmount";
+import { getErrorMessage } from "@/lib/errors";
+
+export function ApprovalsPanel() {
+  const { provider, signer, account } = useWeb3Provider();
+  const { allowances, isLoading, error, refetch } = useRouterAllowances(provider, account);
+  const { revokeApproval } = useTokenApproval();
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  if (!account) return null;
+
+  const handleRevoke = async (tokenAddress: string, symbol: string) => {
+    if (!signer) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+
+    try {
+      setRevoking(tokenAddress);
+      await revokeApproval(tokenAddress, symbol, signer);
+    } catch (error) {
+      console.error("Error revoking approval:", error);
+      toast.error(getErrorMessage(error, "Failed to revoke approval"));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    // Swaps and liquidity changes spend allowances, so reload whenever the panel opens
+    <Popover onOpenChange={(open) => open && refetch()}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-gray-600 bg-gray-800 hover:bg-gray-700"
+          title="Token approvals"
+        >
+          <ShieldCheck className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-gray-800 border-gray-700 text-white">
+        <h3 className="text-md font-semibold text-purple-300 mb-1">Router Approvals</h3>
+        <p className="text-xs text-gray-400 mb-3">Tokens the MiniDex Router is allowed to spend from your wallet</p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+          </div>
+        ) : error ? (
+          <div className="text-center text-red-400 py-4 text-sm">{error}</div>
+        ) : allowances.length > 0 ? (
+          <div className="space-y-2 max-h-[300px] overflow-y-auto">
+            {allowances.map(({ allowance, isUnlimited }) => (
+              <div
+                key={allowance.token.address}
+                className="flex justify-between items-center bg-gray-700 rounded-md p-2 text-sm"
+              >
+                <div>
+                  <div className="font-medium text-green-400" title={allowance.token.address}>
+                    {allowance.token.symbol}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {isUnlimited ? "Unlimited" : formatTokenAmount(allowance)}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs bg-gray-600 hover:bg-gray-500 border-gray-500"
+                  disabled={revoking !== null}
+                  onClick={() => handleRevoke(allowance.token.address, allowance.token.symbol)}
+                >
+                  {revoking === allowance.token.address ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    "Revoke"
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-gray-400 py-4 text-sm">No active approvals</div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useMemo, useState } from "react";
 import { ethers } from "ethers";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -6,21 +6,23 @@ import { z } from "zod";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { TokenSelector } from "@/components/TokenSelector";
+import { SimulationDetails } from "@/components/SimulationDetails";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
-import { FACTORY_ADDRESS } from "@/constants/addresses";
-import FACTORY_ABI from "@/constants/abis/factory.json";
-import PAIR_ABI from "@/constants/abis/pair.json";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useTransaction } from "@/hooks/useTransaction";
+import { Simulate, useSimulation } from "@/hooks/useSimulation";
+import { getErrorMessage } from "@/lib/errors";
+import { simulateTransaction } from "@/lib/simulation";
+import { usePools, useInvalidatePools } from "@/hooks/usePools";
+import { usePoolStats } from "@/hooks/usePoolStats";
+import { getTopPoolsByTvl } from "@/lib/indexer";
+import { getMiniDexFactory, getSimpleERC20 } from "@/contracts";
 
-interface TopPool {
-  token0Symbol: string;
-  token1Symbol: string;
-  token0Address: string;
-  token1Address: string;
-  liquidity: number;
-}
+// Pools with the most value locked get a badge
+const TOP_POOL_COUNT = 5;
 
 const formSchema = z.object({
   tokenA: z.string().min(42, {
@@ -33,9 +35,13 @@ const formSchema = z.object({
 
 export function CreatePool() {
   const { provider, signer, account } = useWeb3Provider();
+  const { deployment } = useDeployment();
+  const { sendTransaction } = useTransaction();
   const [isCreating, setIsCreating] = useState(false);
-  const [topPools, setTopPools] = useState<TopPool[]>([]);
-  const [loadingPools, setLoadingPools] = useState(false);
+  const { pools: topPools, isLoading: loadingPools } = usePools(provider);
+  const invalidatePools = useInvalidatePools();
+  const { stats } = usePoolStats(topPools, "24h");
+  const topPoolAddresses = useMemo(() => getTopPoolsByTvl(stats, TOP_POOL_COUNT), [stats]);
   const [filterTerm, setFilterTerm] = useState("");
 
   const form = useForm<z.infer<typeof formSchema>>({
@@ -46,77 +52,15 @@ export function CreatePool() {
     },
   });
 
-  // Load top pools by liquidity
-  useEffect(() => {
-    const fetchTopPools = async () => {
-      if (!provider) return;
-      
-      try {
-        setLoadingPools(true);
-        
-        const factory = new ethers.Contract(
-          FACTORY_ADDRESS,
-          FACTORY_ABI,
-          provider
-        );
+  const [tokenA, tokenB] = form.watch(["tokenA", "tokenB"]);
 
-        const pairCount = await factory.allPairsLength();
-        const poolsData: TopPool[] = [];
+  // Dry run of the createPair the button would send, so PAIR_EXISTS shows up before confirming
+  const simulateCreatePair = useMemo<Simulate<string> | null>(() => {
+    if (!signer || !deployment || !ethers.utils.isAddress(tokenA) || !ethers.utils.isAddress(tokenB)) return null;
+    return () => simulateTransaction(getMiniDexFactory(deployment.factory, signer), "createPair", tokenA, tokenB);
+  }, [signer, deployment, tokenA, tokenB]);
 
-        for (let i = 0; i < Math.min(pairCount.toNumber(), 20); i++) {
-          const pairAddress = await factory.allPairs(i);
-          
-          const pair = new ethers.Contract(
-            pairAddress,
-            PAIR_ABI,
-            provider
-          );
-          
-          const token0Address = await pair.token0();
-          const token1Address = await pair.token1();
-          const reserves = await pair.getReserves();
-          
-          // Get token symbols
-          const token0 = new ethers.Contract(
-            token0Address,
-            ERC20_ABI,
-            provider
-          );
-          
-          const token1 = new ethers.Contract(
-            token1Address,
-            ERC20_ABI,
-            provider
-          );
-          
-          const token0Symbol = await token0.symbol();
-          const token1Symbol = await token1.symbol();
-          
-          // Calculate liquidity value for sorting
-          const reserve0 = parseFloat(ethers.utils.formatUnits(reserves[0], 18));
-          const reserve1 = parseFloat(ethers.utils.formatUnits(reserves[1], 18));
-          
-          poolsData.push({
-            token0Symbol,
-            token1Symbol,
-            token0Address,
-            token1Address,
-            liquidity: reserve0 + reserve1,
-          });
-        }
-        
-        // Sort by liquidity
-        poolsData.sort((a, b) => b.liquidity - a.liquidity);
-        setTopPools(poolsData);
-      } catch (error) {
-        console.error("Error loading top pools:", error);
-      } finally {
-        setLoadingPools(false);
-      }
-    };
-
-    fetchTopPools();
-  }, [provider]);
+  const createPairSimulation = useSimulation(["createPair", account, tokenA, tokenB], simulateCreatePair);
 
   // Function to select a token for pool creation
   const selectToken = (address: string, field: 'tokenA' | 'tokenB') => {
@@ -139,18 +83,19 @@ export function CreatePool() {
       return;
     }
 
+    if (!deployment) {
+      toast.error("MiniDex is not deployed on this network");
+      return;
+    }
+
     try {
       setIsCreating(true);
       
-      const factory = new ethers.Contract(
-        FACTORY_ADDRESS,
-        FACTORY_ABI,
-        signer
-      );
+      const factory = getMiniDexFactory(deployment.factory, signer);
 
       // Get token symbols for better feedback
-      const tokenA = new ethers.Contract(values.tokenA, ERC20_ABI, provider);
-      const tokenB = new ethers.Contract(values.tokenB, ERC20_ABI, provider);
+      const tokenA = getSimpleERC20(values.tokenA, provider);
+      const tokenB = getSimpleERC20(values.tokenB, provider);
       
       let tokenASymbol = "Token A";
       let tokenBSymbol = "Token B";
@@ -162,20 +107,20 @@ export function CreatePool() {
         console.error("Error getting token symbols:", error);
       }
 
-      toast.info(`Creating ${tokenASymbol}/${tokenBSymbol} liquidity pool...`);
-      const tx = await factory.createPair(values.tokenA, values.tokenB);
-      
-      const receipt = await tx.wait();
+      // Catches PAIR_EXISTS and IDENTICAL_ADDRESSES before the wallet prompt
+      const simulation = await simulateTransaction(factory, "createPair", values.tokenA, values.tokenB);
+
+      await sendTransaction(
+        "createPair",
+        `Create ${tokenASymbol}/${tokenBSymbol} pool`,
+        () => factory.createPair(values.tokenA, values.tokenB, { gasLimit: simulation.gasLimit })
+      );
       
-      if (receipt.status === 1) {
-        toast.success(`${tokenASymbol}/${tokenBSymbol} liquidity pool created successfully!`);
-        form.reset();
-      } else {
-        toast.error("Failed to create liquidity pool");
-      }
-    } catch (error: any) {
+      form.reset();
+      invalidatePools();
+    } catch (error) {
       console.error("Error creating pool:", error);
-      toast.error(error.message || "Failed to create liquidity pool");
+      toast.error(getErrorMessage(error, "Failed to create liquidity pool"));
     } finally {
       setIsCreating(false);
     }
@@ -191,12 +136,12 @@ export function CreatePool() {
               name="tokenA"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Token A Address</FormLabel>
+                  <FormLabel>Token A</FormLabel>
                   <FormControl>
-                    <Input placeholder="0x..." {...field} className="bg-gray-700 border-gray-600" title={field.value} />
+                    <TokenSelector value={field.value} onChange={field.onChange} />
                   </FormControl>
                   <FormDescription className="text-gray-400">
-                    Enter the contract address of the first token
+                    Pick the first token, or paste its address to import it
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -208,21 +153,36 @@ export function CreatePool() {
               name="tokenB"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Token B Address</FormLabel>
+                  <FormLabel>Token B</FormLabel>
                   <FormControl>
-                    <Input placeholder="0x..." {...field} className="bg-gray-700 border-gray-600" title={field.value} />
+                    <TokenSelector value={field.value} onChange={field.onChange} />
                   </FormControl>
                   <FormDescription className="text-gray-400">
-                    Enter the contract address of the second token
+                    Pick the second token, or paste its address to import it
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
             
+            {simulateCreatePair && (
+              <SimulationDetails
+                isSimulating={createPairSimulation.isSimulating}
+                awaitingApproval={createPairSimulation.awaitingApproval}
+                error={createPairSimulation.error}
+                gasCost={createPairSimulation.simulation?.gasCost ?? null}
+                rows={createPairSimulation.simulation ? [
+                  {
+                    label: "Pool address",
+                    value: <span className="font-mono text-xs">{createPairSimulation.simulation.result}</span>
+                  }
+                ] : []}
+              />
+            )}
+
             <Button 
               type="submit" 
-              disabled={isCreating || !account}
+              disabled={isCreating || !account || !!createPairSimulation.error}
               className="w-full bg-purple-600 hover:bg-purple-700"
             >
               {isCreating ? (
@@ -256,15 +216,15 @@ export function CreatePool() {
         ) : (
           <div className="max-h-[250px] overflow-y-auto space-y-3">
             {filteredPools.length > 0 ? (
-              filteredPools.map((pool, index) => (
-                <div key={index} className="bg-gray-700 rounded-md p-3">
+              filteredPools.map(pool => (
+                <div key={pool.pairAddress} className="bg-gray-700 rounded-md p-3">
                   <div className="flex justify-between items-center">
                     <span className="text-sm font-medium">
                       <span className="text-green-400">{pool.token0Symbol}</span>
                       <span className="text-gray-400"> / </span>
                       <span className="text-green-400">{pool.token1Symbol}</span>
                     </span>
-                    {index < 5 && <span className="text-xs bg-green-900 px-1.5 py-0.5 rounded-full">Top</span>}
+                    {topPoolAddresses.has(pool.pairAddress.toLowerCase()) && <span className="text-xs bg-green-900 px-1.5 py-0.5 rounded-full">Top</span>}
                   </div>
                   <div className="text-xs text-gray-400 mt-1 truncate" title={`${pool.token0Address} - ${pool.token1Address}`}>
                     {pool.token0Address.slice(0, 6)}...{pool.token0Address.slice(-4)} - {pool.token1Address.slice(0, 6)}...{pool.token1Address.slice(-4)}
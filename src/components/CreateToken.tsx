@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { ethers } from "ethers";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -6,12 +6,16 @@ import { z } from "zod";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { SimulationDetails } from "@/components/SimulationDetails";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
-import { TOKEN_FACTORY_ADDRESS } from "@/constants/addresses";
-import TOKEN_FACTORY_ABI from "@/constants/abis/token-factory.json";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useTransaction } from "@/hooks/useTransaction";
+import { Simulate, useSimulation } from "@/hooks/useSimulation";
+import { getSimpleERC20, getTokenFactory } from "@/contracts";
+import { getErrorMessage } from "@/lib/errors";
+import { simulateTransaction } from "@/lib/simulation";
 
 const formSchema = z.object({
   name: z.string().min(1, {
@@ -28,14 +32,33 @@ const formSchema = z.object({
   }),
 });
 
+type CreateTokenValues = z.infer<typeof formSchema>;
+
+// createToken arguments for valid form values, or null while the form can't be submitted
+function getCreateTokenArgs(values: CreateTokenValues): [string, string, number, ethers.BigNumber] | null {
+  if (!formSchema.safeParse(values).success) return null;
+
+  const decimals = parseInt(values.decimals);
+  // The contract takes decimals as a uint8
+  if (decimals > 255) return null;
+
+  try {
+    return [values.name, values.symbol, decimals, ethers.utils.parseUnits(values.initialSupply, decimals)];
+  } catch {
+    return null;
+  }
+}
+
 export function CreateToken() {
   const { provider, signer, account } = useWeb3Provider();
+  const { deployment } = useDeployment();
+  const { sendTransaction } = useTransaction();
   const [isCreating, setIsCreating] = useState(false);
   const [createdTokenAddress, setCreatedTokenAddress] = useState<string | null>(null);
   const [deployedTokens, setDeployedTokens] = useState<Array<{address: string, name: string, symbol: string}>>([]);
   const [isLoading, setIsLoading] = useState(false);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<CreateTokenValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
@@ -45,18 +68,31 @@ export function CreateToken() {
     },
   });
 
+  const [name, symbol, decimals, initialSupply] = form.watch(["name", "symbol", "decimals", "initialSupply"]);
+  const createTokenArgs = useMemo(
+    () => getCreateTokenArgs({ name, symbol, decimals, initialSupply }),
+    [name, symbol, decimals, initialSupply]
+  );
+
+  // Dry run of the deployment the button would send; its result is the new token's address
+  const simulateCreateToken = useMemo<Simulate<string> | null>(() => {
+    if (!createTokenArgs || !signer || !deployment) return null;
+    return () => simulateTransaction(getTokenFactory(deployment.tokenFactory, signer), "createToken", ...createTokenArgs);
+  }, [createTokenArgs, signer, deployment]);
+
+  const createTokenSimulation = useSimulation(
+    ["createToken", account, name, symbol, decimals, initialSupply],
+    simulateCreateToken
+  );
+
   // Load deployed tokens when component mounts
   useEffect(() => {
     async function loadDeployedTokens() {
-      if (!provider) return;
+      if (!provider || !deployment) return;
       
       try {
         setIsLoading(true);
-        const tokenFactory = new ethers.Contract(
-          TOKEN_FACTORY_ADDRESS,
-          TOKEN_FACTORY_ABI,
-          provider
-        );
+        const tokenFactory = getTokenFactory(deployment.tokenFactory, provider);
         
         // Get all deployed token addresses
         const tokenAddresses = await tokenFactory.getDeployedTokens();
@@ -66,7 +102,7 @@ export function CreateToken() {
         const tokens = await Promise.all(
           tokenAddresses.map(async (address: string) => {
             try {
-              const tokenContract = new ethers.Contract(address, ERC20_ABI, provider);
+              const tokenContract = getSimpleERC20(address, provider);
               const name = await tokenContract.name();
               const symbol = await tokenContract.symbol();
               
@@ -95,26 +131,27 @@ export function CreateToken() {
     }
     
     loadDeployedTokens();
-  }, [provider, createdTokenAddress]);  // Reload when a new token is created
+  }, [provider, deployment, createdTokenAddress]);  // Reload when a new token is created
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  async function onSubmit(values: CreateTokenValues) {
     if (!signer) {
       toast.error("Please connect your wallet first");
       return;
     }
 
+    if (!deployment) {
+      toast.error("MiniDex is not deployed on this network");
+      return;
+    }
+
     try {
       setIsCreating(true);
       
       console.log("Starting token creation with values:", values);
-      console.log("Using TokenFactory address:", TOKEN_FACTORY_ADDRESS);
+      console.log("Using TokenFactory address:", deployment.tokenFactory);
       console.log("Connected wallet address:", account);
       
-      const tokenFactory = new ethers.Contract(
-        TOKEN_FACTORY_ADDRESS,
-        TOKEN_FACTORY_ABI,
-        signer
-      );
+      const tokenFactory = getTokenFactory(deployment.tokenFactory, signer);
 
       console.log("TokenFactory contract instance created");
       
@@ -132,23 +169,27 @@ export function CreateToken() {
         initialSupply: initialSupplyValue.toString()
       });
       
-      // Create transaction options with higher gas limit to ensure execution
-      const options = {
-        gasLimit: 3000000,  // Specify a higher gas limit
-      };
-      
-      const tx = await tokenFactory.createToken(
+      // Deploying a token costs far more than a plain call, so size the gas limit from a dry run
+      const simulation = await simulateTransaction(
+        tokenFactory,
+        "createToken",
         values.name,
         values.symbol,
         decimalsValue,
-        initialSupplyValue,
-        options
+        initialSupplyValue
       );
       
-      console.log("Transaction sent:", tx.hash);
-      toast.info("Creating token...");
-      
-      const receipt = await tx.wait();
+      const receipt = await sendTransaction(
+        "createToken",
+        `Create ${values.symbol} token`,
+        () => tokenFactory.createToken(
+          values.name,
+          values.symbol,
+          decimalsValue,
+          initialSupplyValue,
+          { gasLimit: simulation.gasLimit }
+        )
+      );
       console.log("Transaction receipt:", receipt);
       
       // Extract the token address from the event logs
@@ -169,9 +210,8 @@ export function CreateToken() {
         }
       }
       
-      if (receipt.status === 1 && tokenAddress) {
+      if (tokenAddress) {
         setCreatedTokenAddress(tokenAddress);
-        toast.success(`Token created successfully! Address: ${tokenAddress}`);
         
         // Clear form except for decimals which stays at 18
         form.reset({ 
@@ -180,16 +220,14 @@ export function CreateToken() {
           decimals: "18", 
           initialSupply: "1000000" 
         });
-      } else if (receipt.status === 1) {
+      } else {
         // Transaction succeeded but we couldn't find the token address
         console.log("Transaction succeeded but couldn't extract token address");
-        toast.success("Token created successfully, but couldn't extract the address");
-      } else {
-        toast.error("Failed to create token");
+        toast.warning("Token created, but couldn't extract its address");
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error creating token:", error);
-      toast.error(error.message || "Failed to create token");
+      toast.error(getErrorMessage(error, "Failed to create token"));
     } finally {
       setIsCreating(false);
     }
@@ -267,9 +305,25 @@ export function CreateToken() {
             )}
           />
           
+          {simulateCreateToken && (
+            <SimulationDetails
+              isSimulating={createTokenSimulation.isSimulating}
+              awaitingApproval={createTokenSimulation.awaitingApproval}
+              error={createTokenSimulation.error}
+              gasCost={createTokenSimulation.simulation?.gasCost ?? null}
+              rows={createTokenSimulation.simulation ? [
+                {
+                  label: "Token address",
+                  value: <span className="font-mono text-xs">{createTokenSimulation.simulation.result}</span>
+                },
+                { label: "Minted to you", value: `${initialSupply} ${symbol}` }
+              ] : []}
+            />
+          )}
+
           <Button 
             type="submit" 
-            disabled={isCreating || !account}
+            disabled={isCreating || !account || !!createTokenSimulation.error}
             className="w-full bg-green-600 hover:bg-green-700"
           >
             {isCreating ? (
@@ -0,0 +1,74 @@
+import { Check, ChevronDown, FlaskConical, Loader2 } from "lucide-react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDevAccounts } from "@/hooks/useDevAccounts";
+import { formatNumber } from "@/lib/utils";
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Account menu for the anvil dev wallet: switch between the prefunded accounts or disconnect
+export function DevAccountSwitcher() {
+  const { account, devAccountIndex, connectDevWallet, disconnectWallet } = useWeb3Provider();
+  const { accounts, isLoading, error, refetch } = useDevAccounts();
+
+  if (!account) return null;
+
+  return (
+    // Balances change with every transaction, so reload whenever the menu opens
+    <DropdownMenu onOpenChange={(open) => open && refetch()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-yellow-500 text-yellow-300 hover:bg-yellow-900/20"
+          title="Anvil dev wallet"
+        >
+          <FlaskConical className="mr-2 h-4 w-4" />
+          #{devAccountIndex} {formatAddress(account)}
+          <ChevronDown className="ml-2 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72 bg-gray-800 border-gray-700 text-white">
+        <DropdownMenuLabel>Anvil dev accounts</DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-gray-700" />
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-400" />
+          </div>
+        ) : error ? (
+          <div className="text-center text-red-400 py-2 text-sm">{error}</div>
+        ) : (
+          accounts.map(devAccount => (
+            <DropdownMenuItem
+              key={devAccount.address}
+              onSelect={() => connectDevWallet(devAccount.index)}
+              className="flex justify-between font-mono text-xs"
+            >
+              <span className="flex items-center">
+                {devAccount.index === devAccountIndex ? (
+                  <Check className="mr-2 h-3 w-3 text-green-400" />
+                ) : (
+                  <span className="mr-2 w-3" />
+                )}
+                #{devAccount.index} {formatAddress(devAccount.address)}
+              </span>
+              <span className="text-gray-400">
+                {formatNumber(ethers.utils.formatEther(devAccount.balance), 2)} ETH
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator className="bg-gray-700" />
+        <DropdownMenuItem onSelect={disconnectWallet}>Disconnect</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
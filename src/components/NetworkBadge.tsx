@@ -0,0 +1,66 @@
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getDeployedNetworks, getNetworkName, isSupportedChain } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { cn } from "@/lib/utils";
+
+export function NetworkBadge() {
+  const { chainId, wallet, switchNetwork } = useWeb3Provider();
+
+  if (!chainId) return null;
+
+  const supported = isSupportedChain(chainId);
+  const badge = (
+    <>
+      <span className={cn("h-2 w-2 rounded-full mr-2", supported ? "bg-green-400" : "bg-red-400")} />
+      {getNetworkName(chainId)}
+    </>
+  );
+
+  // Read-only visitors can't switch, the RPC URL decides the chain
+  if (!wallet) {
+    return (
+      <div className="hidden sm:flex items-center h-10 px-3 rounded-md border border-gray-600 bg-gray-800 text-sm">
+        {badge}
+      </div>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn(
+            "border-gray-600 bg-gray-800 hover:bg-gray-700",
+            !supported && "border-red-700 text-red-300"
+          )}
+        >
+          {badge}
+          <ChevronDown className="ml-2 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-gray-800 border-gray-700 text-white">
+        <DropdownMenuLabel>Switch network</DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-gray-700" />
+        {getDeployedNetworks().map(network => (
+          <DropdownMenuItem
+            key={network.chainId}
+            disabled={network.chainId === chainId}
+            onSelect={() => switchNetwork(network.chainId)}
+          >
+            {network.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
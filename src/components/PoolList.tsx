@@ -1,20 +1,50 @@
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Input } from "@/components/ui/input";
-import { Table, TableBody, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Table, TableBody, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Loader2 } from "lucide-react";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
-import { usePools } from "@/hooks/usePools";
+import { Pool, usePools } from "@/hooks/usePools";
+import { usePoolStats } from "@/hooks/usePoolStats";
+import { useSortableRows } from "@/hooks/useSortableRows";
 import { PoolListItem } from "@/components/pool/PoolListItem";
+import { SortableTableHead } from "@/components/SortableTableHead";
+import { PoolStats, STATS_WINDOWS, StatsWindow, getTopPoolsByTvl } from "@/lib/indexer";
+
+// Pools with the most value locked get a badge
+const TOP_POOL_COUNT = 5;
+
+interface PoolRow {
+  pool: Pool;
+  stats: PoolStats | null;
+}
+
+type PoolSortKey = "pair" | "tvl" | "volume" | "fees" | "apr" | "traders";
+
+const getSortValue = (row: PoolRow, key: PoolSortKey) => {
+  if (key === "pair") return `${row.pool.token0Symbol}/${row.pool.token1Symbol}`;
+  return row.stats?.[key] ?? null;
+};
 
 export function PoolList() {
   const { provider } = useWeb3Provider();
   const { pools, isLoading, error } = usePools(provider);
   const [filterToken, setFilterToken] = useState("");
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>("24h");
+  const { stats, quoteToken, error: statsError } = usePoolStats(pools, statsWindow);
+
+  const rows = useMemo<PoolRow[]>(
+    () => pools.map(pool => ({ pool, stats: stats?.get(pool.pairAddress.toLowerCase()) ?? null })),
+    [pools, stats]
+  );
+  const { sortedRows, sort, toggleSort } = useSortableRows(rows, getSortValue, { key: "tvl", direction: "desc" });
+
+  const topPools = useMemo(() => getTopPoolsByTvl(stats, TOP_POOL_COUNT), [stats]);
 
   // Filter pools by token address or symbol
-  const filteredPools = pools.filter(pool => {
+  const filteredRows = sortedRows.filter(({ pool }) => {
     if (!filterToken) return true;
     const searchTerm = filterToken.toLowerCase();
     return pool.token0Address.toLowerCase().includes(searchTerm) ||
@@ -35,9 +65,9 @@ export function PoolList() {
         />
       </div>
       
-      {error && (
+      {(error || statsError) && (
         <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error ?? statsError}</AlertDescription>
         </Alert>
       )}
       
@@ -52,31 +82,47 @@ export function PoolList() {
         </div>
       ) : (
         <div className="max-h-[500px] overflow-auto bg-gray-800 rounded-md">
+          <div className="flex items-center justify-between gap-2 px-4 pt-3 text-xs text-gray-400">
+            <span>Values in {quoteToken?.symbol}, over the last {STATS_WINDOWS[statsWindow].label}</span>
+            <ToggleGroup
+              type="single"
+              value={statsWindow}
+              onValueChange={(value) => value && setStatsWindow(value as StatsWindow)}
+            >
+              {(Object.keys(STATS_WINDOWS) as StatsWindow[]).map(key => (
+                <ToggleGroupItem key={key} value={key} size="sm" className="data-[state=on]:bg-purple-900">
+                  {STATS_WINDOWS[key].label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Pair</TableHead>
-                <TableHead>Liquidity</TableHead>
-                <TableHead>Addresses</TableHead>
+                <SortableTableHead label="Pair" sortKey="pair" sort={sort} onSort={toggleSort} />
+                <SortableTableHead label="TVL" sortKey="tvl" sort={sort} onSort={toggleSort} className="text-right" />
+                <SortableTableHead label="Volume" sortKey="volume" sort={sort} onSort={toggleSort} className="text-right" />
+                <SortableTableHead label="Fees" sortKey="fees" sort={sort} onSort={toggleSort} className="text-right" />
+                <SortableTableHead label="APR" sortKey="apr" sort={sort} onSort={toggleSort} className="text-right" />
+                <SortableTableHead label="Traders" sortKey="traders" sort={sort} onSort={toggleSort} className="text-right" />
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredPools.map((pool, index) => (
+              {filteredRows.map(({ pool, stats: poolStats }) => (
                 <PoolListItem
                   key={pool.pairAddress}
                   pairAddress={pool.pairAddress}
-                  token0Address={pool.token0Address}
-                  token1Address={pool.token1Address}
                   token0Symbol={pool.token0Symbol}
                   token1Symbol={pool.token1Symbol}
                   reserves={pool.reserves}
-                  index={index}
+                  stats={poolStats}
+                  isTopPool={topPools.has(pool.pairAddress.toLowerCase())}
                 />
               ))}
             </TableBody>
           </Table>
           
-          {filteredPools.length === 0 && (
+          {filteredRows.length === 0 && (
             <div className="text-center py-8">
               <p className="text-gray-400">No pools match your filter criteria</p>
             </div>
@@ -0,0 +1,35 @@
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getDeployedNetworks, getNetworkName } from "@/constants/networks";
+
+interface ProtocolNotDeployedProps {
+  chainId: number | null;
+}
+
+export function ProtocolNotDeployed({ chainId }: ProtocolNotDeployedProps) {
+  const networks = getDeployedNetworks();
+
+  return (
+    <Card className="bg-gray-800 border-red-800">
+      <CardHeader>
+        <CardTitle className="flex items-center text-red-300">
+          <AlertTriangle className="h-5 w-5 mr-2" />
+          Protocol not deployed on this chain
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          No MiniDex contracts were found on {getNetworkName(chainId)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm text-gray-300">
+        <p>
+          {networks.length > 0
+            ? `Switch to a supported network (${networks.map(network => network.name).join(", ")}).`
+            : "No deployments were found in the broadcast artifacts."}
+        </p>
+        <p className="text-gray-400">
+          If you restarted anvil, redeploy with <code className="text-purple-300">forge script script/DeployProtocol.s.sol --fork-url http://localhost:8545 --broadcast</code> and reload the app.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
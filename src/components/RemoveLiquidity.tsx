@@ -0,0 +1,168 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+
+import { usePools } from "@/hooks/usePools";
+import { useLiquidityPositions } from "@/hooks/useLiquidityPositions";
+import { RemoveLiquidityResult, useRemoveLiquidity } from "@/hooks/useRemoveLiquidity";
+import { Simulate, useSimulation } from "@/hooks/useSimulation";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
+import { getRemoveLiquidityAmounts } from "@/lib/liquidity";
+import { applySlippage } from "@/lib/transactionSettings";
+import { percentOf } from "@/lib/tokenAmount";
+import { PositionList } from "@/components/liquidity/PositionList";
+import { RemoveLiquidityPreview, RemoveLiquiditySummary } from "@/components/liquidity/RemoveLiquiditySummary";
+
+const PERCENT_PRESETS = [25, 50, 75, 100];
+
+export function RemoveLiquidity() {
+  const { provider, signer, account } = useWeb3Provider();
+  const [selectedPair, setSelectedPair] = useState<string | null>(null);
+  const [percent, setPercent] = useState("50");
+  const { slippage } = useTransactionSettings();
+
+  // Custom hooks
+  const { pools } = usePools(provider);
+
+  const {
+    positions,
+    isLoading: positionsLoading,
+    error: positionsError,
+    refresh
+  } = useLiquidityPositions(pools, provider, account);
+
+  const {
+    removeLiquidity,
+    simulateRemoveLiquidity,
+    isRemoving,
+    error: removeLiquidityError
+  } = useRemoveLiquidity();
+
+  const position = positions.find(p => p.pool.pairAddress === selectedPair) || null;
+
+  const percentValue = parseFloat(percent);
+  const isValidPercent = !isNaN(percentValue) && percentValue > 0 && percentValue <= 100;
+
+  const liquidity = position && isValidPercent ? percentOf(position.lpBalance, percentValue) : null;
+
+  let preview: RemoveLiquidityPreview | null = null;
+  if (position && liquidity) {
+    const [amount0, amount1] = getRemoveLiquidityAmounts(
+      liquidity.raw,
+      position.reserve0,
+      position.reserve1,
+      position.totalSupply
+    );
+    preview = {
+      liquidity,
+      amount0,
+      amount1,
+      amount0Min: applySlippage(amount0, slippage),
+      amount1Min: applySlippage(amount1, slippage)
+    };
+  }
+
+  const simulate = useMemo<Simulate<RemoveLiquidityResult> | null>(() => {
+    if (!position || !liquidity || liquidity.raw.isZero()) return null;
+    return () => simulateRemoveLiquidity({ pool: position.pool, liquidity: liquidity.raw, signer, account });
+  }, [position, liquidity, signer, account, simulateRemoveLiquidity]);
+
+  const removeLiquiditySimulation = useSimulation(
+    ["removeLiquidity", account, position?.pool.pairAddress, liquidity?.raw.toString(), slippage],
+    simulate
+  );
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!position || !liquidity) return;
+
+    const success = await removeLiquidity({
+      pool: position.pool,
+      liquidity: liquidity.raw,
+      signer,
+      account
+    });
+
+    if (success) {
+      setSelectedPair(null);
+      setPercent("50");
+      refresh();
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="md:col-span-2">
+        <form onSubmit={onSubmit} className="space-y-6">
+          <PositionList
+            positions={positions}
+            isLoading={positionsLoading}
+            error={positionsError}
+            selectedPairAddress={selectedPair}
+            onSelectPosition={setSelectedPair}
+          />
+
+          <div className="space-y-2">
+            <Label>Amount to remove (%)</Label>
+            <div className="flex space-x-2">
+              {PERCENT_PRESETS.map((preset) => (
+                <Button
+                  key={preset}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={`flex-1 border-gray-600 ${
+                    percentValue === preset ? 'bg-purple-900 border-purple-500' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  onClick={() => setPercent(String(preset))}
+                >
+                  {preset === 100 ? "MAX" : `${preset}%`}
+                </Button>
+              ))}
+            </div>
+            <Input
+              type="number"
+              placeholder="Custom %"
+              min="0"
+              max="100"
+              value={percent}
+              onChange={(e) => setPercent(e.target.value)}
+              className="bg-gray-700 border-gray-600"
+            />
+            {!isValidPercent && (
+              <p className="text-sm text-red-400">Enter a percentage between 0 and 100</p>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isRemoving || !account || !position || !isValidPercent || !!removeLiquiditySimulation.error}
+            className="w-full bg-purple-600 hover:bg-purple-700"
+          >
+            {isRemoving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Removing Liquidity...
+              </>
+            ) : (
+              "Remove Liquidity"
+            )}
+          </Button>
+        </form>
+      </div>
+
+      <div className="md:col-span-2">
+        <RemoveLiquiditySummary
+          position={position}
+          preview={preview}
+          slippage={slippage}
+          simulation={simulate ? removeLiquiditySimulation : null}
+          error={removeLiquidityError}
+        />
+      </div>
+    </div>
+  );
+}
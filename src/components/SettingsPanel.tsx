@@ -0,0 +1,145 @@
+import { useState, useEffect } from "react";
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
+import {
+  ApprovalMode,
+  SLIPPAGE_PRESETS,
+  getDeadlineWarning,
+  getSlippageWarning,
+} from "@/lib/transactionSettings";
+
+export function SettingsPanel() {
+  const {
+    slippage,
+    deadlineMinutes,
+    approvalMode,
+    setSlippage,
+    setDeadlineMinutes,
+    setApprovalMode,
+    resetSettings
+  } = useTransactionSettings();
+
+  // Inputs keep the raw text so partially typed values are not rejected mid-edit
+  const [slippageInput, setSlippageInput] = useState(String(slippage));
+  const [deadlineInput, setDeadlineInput] = useState(String(deadlineMinutes));
+
+  useEffect(() => setSlippageInput(String(slippage)), [slippage]);
+  useEffect(() => setDeadlineInput(String(deadlineMinutes)), [deadlineMinutes]);
+
+  const slippageWarning = getSlippageWarning(parseFloat(slippageInput));
+  const deadlineWarning = getDeadlineWarning(Number(deadlineInput));
+
+  const handleSlippageChange = (value: string) => {
+    setSlippageInput(value);
+    setSlippage(parseFloat(value));
+  };
+
+  const handleDeadlineChange = (value: string) => {
+    setDeadlineInput(value);
+    setDeadlineMinutes(Number(value));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-gray-600 bg-gray-800 hover:bg-gray-700"
+          title="Transaction settings"
+        >
+          <Settings className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-gray-800 border-gray-700 text-white">
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-md font-semibold text-purple-300">Transaction Settings</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-gray-400 hover:text-white"
+              onClick={resetSettings}
+            >
+              Reset
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Slippage tolerance</Label>
+            <div className="flex space-x-2">
+              {SLIPPAGE_PRESETS.map((preset) => (
+                <Button
+                  key={preset}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={`flex-1 border-gray-600 ${
+                    slippage === preset ? 'bg-purple-900 border-purple-500' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  onClick={() => handleSlippageChange(String(preset))}
+                >
+                  {preset}%
+                </Button>
+              ))}
+              <div className="relative w-24">
+                <Input
+                  type="number"
+                  placeholder="Custom"
+                  value={slippageInput}
+                  onChange={(e) => handleSlippageChange(e.target.value)}
+                  className="h-9 bg-gray-700 border-gray-600 pr-6"
+                />
+                <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-sm text-gray-400">%</span>
+              </div>
+            </div>
+            {slippageWarning && (
+              <p className="text-xs text-yellow-400">{slippageWarning}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Transaction deadline</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                value={deadlineInput}
+                onChange={(e) => handleDeadlineChange(e.target.value)}
+                className="h-9 w-24 bg-gray-700 border-gray-600"
+              />
+              <span className="text-sm text-gray-400">minutes</span>
+            </div>
+            {deadlineWarning && (
+              <p className="text-xs text-yellow-400">{deadlineWarning}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Token approvals</Label>
+            <ToggleGroup
+              type="single"
+              value={approvalMode}
+              onValueChange={(value) => value && setApprovalMode(value as ApprovalMode)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="exact" size="sm" className="data-[state=on]:bg-purple-900">
+                Exact amount
+              </ToggleGroupItem>
+              <ToggleGroupItem value="unlimited" size="sm" className="data-[state=on]:bg-purple-900">
+                Unlimited
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {approvalMode === "unlimited" && (
+              <p className="text-xs text-yellow-400">The Router can spend any amount of each token you approve until you revoke it</p>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,64 @@
+import { ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import { BigNumber } from "ethers";
+import { formatGasCost } from "@/lib/simulation";
+
+export interface SimulationRow {
+  label: string;
+  value: ReactNode;
+}
+
+interface SimulationDetailsProps {
+  isSimulating: boolean;
+  awaitingApproval: boolean;
+  error: string | null;
+  gasCost: BigNumber | null;
+  // Decoded results of the dry run
+  rows: SimulationRow[];
+}
+
+export function SimulationDetails({
+  isSimulating,
+  awaitingApproval,
+  error,
+  gasCost,
+  rows
+}: SimulationDetailsProps) {
+  if (error) {
+    return (
+      <div className="bg-red-900/40 text-red-300 p-3 rounded-md text-sm">
+        <div className="font-medium">This transaction would fail</div>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-700 rounded-md p-3 space-y-1 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">Simulation</span>
+        {isSimulating && <Loader2 className="h-4 w-4 animate-spin text-purple-400" />}
+      </div>
+      {awaitingApproval ? (
+        <div className="text-xs text-gray-400">
+          The dry run runs again after the token approval, before you sign
+        </div>
+      ) : (
+        <>
+          {rows.map(row => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-gray-400">{row.label}</span>
+              <span>{row.value}</span>
+            </div>
+          ))}
+          {gasCost && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Network fee</span>
+              <span>≈ {formatGasCost(gasCost)}</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
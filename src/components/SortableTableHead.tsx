@@ -0,0 +1,39 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { TableHead } from "@/components/ui/table";
+import { SortState } from "@/hooks/useSortableRows";
+import { cn } from "@/lib/utils";
+
+interface SortableTableHeadProps<K extends string> {
+  label: string;
+  sortKey: K;
+  sort: SortState<K>;
+  onSort: (key: K) => void;
+  className?: string;
+}
+
+export function SortableTableHead<K extends string>({
+  label,
+  sortKey,
+  sort,
+  onSort,
+  className
+}: SortableTableHeadProps<K>) {
+  const isActive = sort.key === sortKey;
+  const Icon = !isActive ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className}>
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className={cn(
+          "inline-flex items-center gap-1 hover:text-purple-300",
+          isActive ? "text-purple-300" : "text-gray-400"
+        )}
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+}
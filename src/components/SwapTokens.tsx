@@ -1,21 +1,34 @@
 
-import { useState } from "react";
-import { ethers } from "ethers";
+import { useState, useEffect, useMemo } from "react";
+import { BigNumber } from "ethers";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Form } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { ArrowDown, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
-import { ROUTER_ADDRESS } from "@/constants/addresses";
-import ROUTER_ABI from "@/constants/abis/router.json";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { getRouter, getSimpleERC20 } from "@/contracts";
 
 import { useTokenInfo } from "@/hooks/useTokenInfo";
-import { usePools } from "@/hooks/usePools";
+import { usePools, useInvalidatePools } from "@/hooks/usePools";
 import { useSwapCalculation } from "@/hooks/useSwapCalculation";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useTransaction } from "@/hooks/useTransaction";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
+import { useTokenApproval } from "@/hooks/useTokenApproval";
+import { Simulate, useSimulation } from "@/hooks/useSimulation";
+import { hasAllowance } from "@/lib/approvals";
+import { getPriceImpactSeverity, getTradeBreakdown } from "@/lib/priceImpact";
+import { Route, TradeType } from "@/lib/routing";
+import { simulateTransaction } from "@/lib/simulation";
+import { addSlippage, applySlippage } from "@/lib/transactionSettings";
+import { TokenAmount, formatTokenAmount, toExact } from "@/lib/tokenAmount";
+import { getErrorMessage } from "@/lib/errors";
 import { PoolSelector } from "@/components/swap/PoolSelector";
 import { TokenField } from "@/components/swap/TokenField";
 import { SwapSummary } from "@/components/swap/SwapSummary";
@@ -29,17 +42,59 @@ const formSchema = z.object({
   }),
 });
 
-export function SwapTokens() {
+interface SwapQuote {
+  tradeType: TradeType;
+  route: Route;
+  inputAmount: TokenAmount;
+  outputAmount: TokenAmount;
+  // Exact input trades spend the quoted input; exact output trades up to the quote plus slippage
+  amountInMax: TokenAmount;
+  slippage: number;
+}
+
+// Router call for a quote, shared by the preview dry run and the swap itself
+function getSwapCall(quote: SwapQuote, account: string, deadline: number) {
+  const { tradeType, route, inputAmount, outputAmount, amountInMax, slippage } = quote;
+
+  if (tradeType === "exactIn") {
+    // Calculate minimum output amount from the configured slippage
+    const amountOutMin = applySlippage(outputAmount, slippage);
+    return {
+      method: "swapExactTokensForTokens" as const,
+      args: [inputAmount.raw, amountOutMin.raw, route.path, account, deadline] as const
+    };
+  }
+
+  return {
+    method: "swapTokensForExactTokens" as const,
+    args: [outputAmount.raw, amountInMax.raw, route.path, account, deadline] as const
+  };
+}
+
+interface SwapTokensProps {
+  // Prefill from a link, e.g. the pool page's "Swap" shortcut
+  defaultTokenIn?: string;
+  defaultTokenOut?: string;
+}
+
+export function SwapTokens({ defaultTokenIn = "", defaultTokenOut = "" }: SwapTokensProps) {
   const { provider, signer, account } = useWeb3Provider();
   const [isSwapping, setIsSwapping] = useState(false);
+  const [tradeType, setTradeType] = useState<TradeType>("exactIn");
   const [amountIn, setAmountIn] = useState("");
+  const [amountOut, setAmountOut] = useState("");
   const [swapError, setSwapError] = useState<string | null>(null);
+  const [impactConfirmed, setImpactConfirmed] = useState(false);
+  const { slippage, getDeadline } = useTransactionSettings();
+  const { deployment } = useDeployment();
+  const { approveIfNeeded } = useTokenApproval();
+  const { sendTransaction } = useTransaction();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      tokenIn: "",
-      tokenOut: "",
+      tokenIn: defaultTokenIn,
+      tokenOut: defaultTokenOut,
     },
   });
 
@@ -48,6 +103,7 @@ export function SwapTokens() {
 
   // Custom hooks
   const { pools, isLoading: poolsLoading, error: poolsError } = usePools(provider);
+  const invalidatePools = useInvalidatePools();
   
   const { 
     tokenInfo: tokenInInfo, 
@@ -62,50 +118,115 @@ export function SwapTokens() {
   } = useTokenInfo(watchTokenOut, provider, account);
   
   const { 
+    inputAmount,
+    outputAmount,
+    expectedInput,
     expectedOutput, 
+    route,
+    routeAmounts,
     isCalculating, 
     error: calculationError 
-  } = useSwapCalculation(amountIn, watchTokenIn, watchTokenOut, provider);
+  } = useSwapCalculation(
+    tradeType === "exactIn" ? amountIn : amountOut,
+    watchTokenIn,
+    watchTokenOut,
+    provider,
+    pools,
+    tradeType
+  );
+
+  // The side the user typed is fixed; the other side comes from the quote
+  const displayAmountIn = tradeType === "exactIn" ? amountIn : expectedInput;
+  const displayAmountOut = tradeType === "exactIn" ? expectedOutput : amountOut;
+
+  const breakdown = useMemo(
+    () => route && inputAmount && outputAmount ? getTradeBreakdown(route, inputAmount, outputAmount) : null,
+    [route, inputAmount, outputAmount]
+  );
+  const requiresImpactConfirmation = !!breakdown && getPriceImpactSeverity(breakdown.priceImpact) === "high";
+
+  const slippageLimit = useMemo(() => {
+    if (tradeType === "exactIn") return outputAmount && applySlippage(outputAmount, slippage);
+    return inputAmount && addSlippage(inputAmount, slippage);
+  }, [tradeType, inputAmount, outputAmount, slippage]);
+
+  const quote = useMemo<SwapQuote | null>(() => {
+    if (!route || !inputAmount || !outputAmount || inputAmount.raw.isZero() || outputAmount.raw.isZero()) return null;
+    return {
+      tradeType,
+      route,
+      inputAmount,
+      outputAmount,
+      amountInMax: tradeType === "exactIn" ? inputAmount : addSlippage(inputAmount, slippage),
+      slippage
+    };
+  }, [tradeType, route, inputAmount, outputAmount, slippage]);
+
+  // Dry run of the exact swap the button would send
+  const simulateSwap = useMemo<Simulate<BigNumber[]> | null>(() => {
+    if (!quote || !signer || !account || !deployment) return null;
+    return async () => {
+      const tokenIn = getSimpleERC20(quote.inputAmount.token.address, signer);
+      if (!(await hasAllowance(tokenIn, account, deployment.router, quote.amountInMax.raw))) return null;
+
+      const { method, args } = getSwapCall(quote, account, getDeadline());
+      return simulateTransaction(getRouter(deployment.router, signer), method, ...args);
+    };
+  }, [quote, signer, account, deployment, getDeadline]);
+
+  const swapSimulation = useSimulation(
+    [
+      "swap",
+      account,
+      quote?.route.path.join(),
+      tradeType,
+      quote?.inputAmount.raw.toString(),
+      quote?.outputAmount.raw.toString(),
+      slippage
+    ],
+    simulateSwap
+  );
+
+  // A new trade needs a fresh confirmation; live reserve updates alone don't reset it
+  useEffect(() => {
+    setImpactConfirmed(false);
+  }, [amountIn, amountOut, watchTokenIn, watchTokenOut, tradeType]);
 
   // Swap button handler
   async function onSubmit(values: z.infer<typeof formSchema>) {
-    if (!signer) {
+    if (!signer || !account) {
       toast.error("Please connect your wallet first");
       return;
     }
 
-    if (!amountIn || parseFloat(amountIn) <= 0) {
+    if (!deployment) {
+      toast.error("MiniDex is not deployed on this network");
+      return;
+    }
+
+    if (!route || !inputAmount || !outputAmount) {
+      toast.error("No swap route available for these tokens");
+      return;
+    }
+
+    if (!quote) {
       toast.error("Please enter a valid amount");
       return;
     }
 
+    if (requiresImpactConfirmation && !impactConfirmed) {
+      toast.error("Confirm the price impact before swapping");
+      return;
+    }
+
     setSwapError(null);
     
     try {
       setIsSwapping(true);
       
-      // First get token decimals
-      const tokenInContract = new ethers.Contract(
-        values.tokenIn,
-        ERC20_ABI,
-        signer
-      );
-      
-      const decimals = await tokenInContract.decimals();
-      
-      // Check if amount is valid
-      if (isNaN(parseFloat(amountIn))) {
-        throw new Error("Invalid amount");
-      }
-      
-      const amountInWei = ethers.utils.parseUnits(amountIn, decimals);
-      
       // Check if user has enough balance
-      if (tokenInInfo) {
-        const balanceWei = ethers.utils.parseUnits(tokenInInfo.balance, tokenInInfo.decimals);
-        if (balanceWei.lt(amountInWei)) {
-          throw new Error(`Insufficient ${tokenInInfo.symbol} balance`);
-        }
+      if (tokenInInfo && tokenInInfo.balanceAmount.raw.lt(inputAmount.raw)) {
+        throw new Error(`Insufficient ${tokenInInfo.symbol} balance`);
       }
       
       // Get token symbols for better UX
@@ -115,62 +236,36 @@ export function SwapTokens() {
       if (tokenInInfo) tokenInSymbol = tokenInInfo.symbol;
       if (tokenOutInfo) tokenOutSymbol = tokenOutInfo.symbol;
       
-      toast.info(`Approving ${tokenInSymbol}...`);
+      // Skipped when the existing allowance already covers the trade
+      await approveIfNeeded({
+        tokenAddress: values.tokenIn,
+        symbol: tokenInSymbol,
+        amount: quote.amountInMax.raw,
+        signer,
+        account
+      });
       
-      try {
-        const approval = await tokenInContract.approve(ROUTER_ADDRESS, amountInWei);
-        await approval.wait();
-      } catch (approvalError: any) {
-        console.error("Approval error:", approvalError);
-        throw new Error(`Failed to approve ${tokenInSymbol}: ${approvalError.message || "Transaction rejected"}`);
-      }
+      // Now swap, after a dry run so a revert is caught before the wallet prompt
+      const router = getRouter(deployment.router, signer);
+      const { method, args } = getSwapCall(quote, account, getDeadline());
+      const simulation = await simulateTransaction(router, method, ...args);
       
-      // Now swap
-      const router = new ethers.Contract(
-        ROUTER_ADDRESS,
-        ROUTER_ABI,
-        signer
-      );
-
-      const path = [values.tokenIn, values.tokenOut];
-      const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes
+      const summary = `Swap ${formatTokenAmount(inputAmount)} ${tokenInSymbol} for ${formatTokenAmount(outputAmount)} ${tokenOutSymbol}`;
       
-      toast.info(`Swapping ${tokenInSymbol} for ${tokenOutSymbol}...`);
+      await sendTransaction("swap", summary, () =>
+        router[method](...args, { gasLimit: simulation.gasLimit })
+      );
       
-      try {
-        // Calculate minimum output amount with 1% slippage
-        let amountOutMin = 0;
-        if (expectedOutput) {
-          const outDecimals = tokenOutInfo?.decimals || 18;
-          const expectedOutputWei = ethers.utils.parseUnits(expectedOutput, outDecimals);
-          amountOutMin = expectedOutputWei.mul(99).div(100).toNumber(); // 1% slippage
-        }
-        
-        const tx = await router.swapExactTokensForTokens(
-          amountInWei,
-          amountOutMin,
-          path,
-          account,
-          deadline
-        );
-        
-        const receipt = await tx.wait();
-        
-        if (receipt.status === 1) {
-          toast.success(`Successfully swapped ${tokenInSymbol} for ${tokenOutSymbol}!`);
-          form.reset();
-          setAmountIn("");
-        } else {
-          throw new Error("Transaction failed");
-        }
-      } catch (swapError: any) {
-        console.error("Swap error:", swapError);
-        throw new Error(`Failed to swap tokens: ${swapError.message || "Transaction failed"}`);
-      }
-    } catch (error: any) {
+      form.reset();
+      setAmountIn("");
+      setAmountOut("");
+      // Reserves moved, so cached pools and quotes are stale
+      invalidatePools();
+    } catch (error) {
       console.error("Error swapping tokens:", error);
-      toast.error(error.message || "Failed to swap tokens");
-      setSwapError(error.message || "Unknown error occurred during swap");
+      const errorMessage = getErrorMessage(error, "Failed to swap tokens");
+      toast.error(errorMessage);
+      setSwapError(errorMessage);
     } finally {
       setIsSwapping(false);
     }
@@ -184,6 +279,15 @@ export function SwapTokens() {
     form.setValue("tokenIn", tokenOut);
     form.setValue("tokenOut", tokenIn);
     setAmountIn("");
+    setAmountOut("");
+  };
+
+  // Switch between "I pay X" and "I want exactly Y"
+  const handleTradeTypeChange = (value: string) => {
+    if (!value) return;
+    setTradeType(value as TradeType);
+    setAmountIn("");
+    setAmountOut("");
   };
 
   // Handle pool selection
@@ -195,7 +299,9 @@ export function SwapTokens() {
   // Set maximum available amounts
   const setMaxAmount = () => {
     if (tokenInInfo) {
-      setAmountIn(tokenInInfo.balance);
+      setTradeType("exactIn");
+      setAmountOut("");
+      setAmountIn(toExact(tokenInInfo.balanceAmount));
     }
   };
 
@@ -213,15 +319,30 @@ export function SwapTokens() {
               selectedTokenOut={watchTokenOut}
             />
             
+            <ToggleGroup
+              type="single"
+              value={tradeType}
+              onValueChange={handleTradeTypeChange}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="exactIn" size="sm" className="data-[state=on]:bg-purple-900">
+                Exact input
+              </ToggleGroupItem>
+              <ToggleGroupItem value="exactOut" size="sm" className="data-[state=on]:bg-purple-900">
+                Exact output
+              </ToggleGroupItem>
+            </ToggleGroup>
+            
             <TokenField 
               form={form}
               name="tokenIn"
-              label="From"
+              label={tradeType === "exactIn" ? "From" : "From (estimated)"}
               tokenInfo={tokenInInfo}
               isLoading={tokenInLoading}
               error={tokenInError}
               amountName="amountIn"
-              amountValue={amountIn}
+              amountValue={displayAmountIn}
+              amountReadOnly={tradeType === "exactOut"}
               onAmountChange={setAmountIn}
               showMaxButton={true}
               onMaxClick={setMaxAmount}
@@ -242,18 +363,38 @@ export function SwapTokens() {
             <TokenField 
               form={form}
               name="tokenOut"
-              label="To"
+              label={tradeType === "exactOut" ? "To" : "To (estimated)"}
               tokenInfo={tokenOutInfo}
               isLoading={tokenOutLoading}
               error={tokenOutError}
               amountName="amountOut"
-              amountValue={expectedOutput}
-              amountReadOnly={true}
+              amountValue={displayAmountOut}
+              amountReadOnly={tradeType === "exactIn"}
+              onAmountChange={setAmountOut}
             />
             
+            {requiresImpactConfirmation && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="confirm-price-impact"
+                  checked={impactConfirmed}
+                  onCheckedChange={(checked) => setImpactConfirmed(checked === true)}
+                />
+                <Label htmlFor="confirm-price-impact" className="text-sm text-red-300">
+                  I accept the {breakdown?.priceImpact.toFixed(2)}% price impact
+                </Label>
+              </div>
+            )}
+            
             <Button 
               type="submit" 
-              disabled={isSwapping || !account || isCalculating}
+              disabled={
+                isSwapping ||
+                !account ||
+                isCalculating ||
+                !!swapSimulation.error ||
+                (requiresImpactConfirmation && !impactConfirmed)
+              }
               className="w-full bg-purple-600 hover:bg-purple-700"
             >
               {isSwapping ? (
@@ -273,8 +414,15 @@ export function SwapTokens() {
         <SwapSummary
           tokenInInfo={tokenInInfo}
           tokenOutInfo={tokenOutInfo}
-          amountIn={amountIn}
-          expectedOutput={expectedOutput}
+          tradeType={tradeType}
+          amountIn={displayAmountIn}
+          expectedOutput={displayAmountOut}
+          route={route}
+          routeAmounts={routeAmounts}
+          breakdown={breakdown}
+          slippageLimit={slippageLimit}
+          slippage={slippage}
+          simulation={quote ? swapSimulation : null}
           error={swapError || calculationError}
         />
       </div>
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { AlertTriangle, ChevronDown, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useTokenInfo } from "@/hooks/useTokenInfo";
+import { useTokenList } from "@/hooks/useTokenList";
+import { saveImportedToken } from "@/lib/tokenList";
+import { formatNumber } from "@/lib/utils";
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+interface TokenSelectorProps {
+  value: string;
+  onChange: (address: string) => void;
+  // Shown on the trigger; looked up from `value` when the caller doesn't already have it
+  symbol?: string;
+  disabled?: boolean;
+}
+
+// Only mounted while the dialog is open, so balances are fresh every time it's opened
+function TokenSelectorList({ value, onSelect }: { value: string; onSelect: (address: string) => void }) {
+  const { provider, account, chainId } = useWeb3Provider();
+  const { tokens, isLoading, error } = useTokenList();
+  const [search, setSearch] = useState("");
+
+  const query = search.trim();
+  const isUnlisted = ethers.utils.isAddress(query) &&
+    !tokens.some(token => token.address.toLowerCase() === query.toLowerCase());
+  const { tokenInfo: importInfo, isLoading: importLoading, error: importError } =
+    useTokenInfo(isUnlisted ? query : undefined, provider, account);
+
+  const handleImport = () => {
+    if (!importInfo || !chainId) return;
+    saveImportedToken(chainId, importInfo.address);
+    onSelect(importInfo.address);
+  };
+
+  return (
+    <Command className="bg-gray-800 text-white">
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder="Search by symbol, name or paste an address"
+      />
+      <CommandList className="max-h-[360px]">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-400" />
+          </div>
+        ) : error ? (
+          <div className="text-center text-red-400 py-6 text-sm">{error}</div>
+        ) : (
+          <>
+            {!isUnlisted && <CommandEmpty>No tokens found</CommandEmpty>}
+
+            {isUnlisted && (
+              <CommandGroup heading="Import token">
+                <CommandItem
+                  value={query}
+                  forceMount
+                  disabled={!importInfo}
+                  onSelect={handleImport}
+                  className="flex justify-between"
+                >
+                  {importLoading ? (
+                    <span className="flex items-center text-gray-400">
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Looking up token...
+                    </span>
+                  ) : importInfo ? (
+                    <span className="flex items-center">
+                      <AlertTriangle className="mr-2 h-4 w-4 text-yellow-400" />
+                      Import {importInfo.symbol}
+                      <span className="ml-2 font-mono text-xs text-gray-400">{formatAddress(importInfo.address)}</span>
+                    </span>
+                  ) : (
+                    <span className="text-red-400">{importError ?? "Not a token contract"}</span>
+                  )}
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            <CommandGroup heading="Tokens">
+              {tokens.map(token => (
+                <CommandItem
+                  key={token.address}
+                  value={token.address}
+                  keywords={[token.symbol, token.name]}
+                  onSelect={() => onSelect(token.address)}
+                  className="flex justify-between"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`font-medium ${token.address.toLowerCase() === value.toLowerCase() ? "text-purple-300" : ""}`}>
+                        {token.symbol}
+                      </span>
+                      <span className="truncate text-xs text-gray-400">{token.name}</span>
+                      {token.imported && (
+                        <span className="text-[10px] bg-yellow-900 text-yellow-300 px-1.5 rounded-full">Imported</span>
+                      )}
+                    </div>
+                    <div className="font-mono text-xs text-gray-500">{formatAddress(token.address)}</div>
+                  </div>
+                  {account && (
+                    <span className="text-sm text-gray-300">{formatNumber(token.balance)}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </Command>
+  );
+}
+
+export function TokenSelector({ value, onChange, symbol, disabled = false }: TokenSelectorProps) {
+  const { provider } = useWeb3Provider();
+  const [open, setOpen] = useState(false);
+  // No account: the trigger only needs the symbol
+  const { tokenInfo } = useTokenInfo(symbol ? undefined : value, provider, null);
+
+  const label = symbol ?? tokenInfo?.symbol ?? (ethers.utils.isAddress(value) ? formatAddress(value) : null);
+
+  const handleSelect = (address: string) => {
+    onChange(address);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        disabled={disabled}
+        onClick={() => setOpen(true)}
+        className="w-full justify-between border-gray-600 bg-gray-700 hover:bg-gray-600"
+        title={value || undefined}
+      >
+        <span className={label ? "" : "text-gray-400"}>{label ?? "Select token"}</span>
+        <ChevronDown className="h-4 w-4 opacity-60" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="bg-gray-800 border-gray-700 text-white p-0 sm:max-w-md overflow-hidden">
+          <DialogHeader className="px-4 pt-4">
+            <DialogTitle className="text-purple-300">Select a token</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Tokens from every pool and the token factory. Paste an address to import any other ERC-20.
+            </DialogDescription>
+          </DialogHeader>
+          <TokenSelectorList value={value} onSelect={handleSelect} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
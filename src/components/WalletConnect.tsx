@@ -1,29 +1,66 @@
-
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Loader2, Wallet } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FlaskConical, Loader2, Wallet } from "lucide-react";
+import { DevAccountSwitcher } from "@/components/DevAccountSwitcher";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { WalletDetail } from "@/lib/eip6963";
 
 export const WalletConnect = () => {
-  const { account, connectWallet, disconnectWallet, isConnecting } = useWeb3Provider();
+  const {
+    account,
+    wallet,
+    wallets,
+    connectWallet,
+    disconnectWallet,
+    isConnecting,
+    isDevWalletAvailable,
+    devAccountIndex,
+    connectDevWallet,
+  } = useWeb3Provider();
+  const [pickerOpen, setPickerOpen] = useState(false);
 
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
+  const handleSelect = async (selected: WalletDetail) => {
+    setPickerOpen(false);
+    await connectWallet(selected);
+  };
+
+  const handleSelectDevWallet = () => {
+    setPickerOpen(false);
+    connectDevWallet(0);
+  };
+
   return (
     <div>
-      {account ? (
-        <Button 
-          variant="outline" 
+      {account && devAccountIndex !== null ? (
+        <DevAccountSwitcher />
+      ) : account ? (
+        <Button
+          variant="outline"
           onClick={disconnectWallet}
           className="border-purple-500 text-purple-400 hover:bg-purple-900/20"
+          title={wallet ? `Connected with ${wallet.info.name}` : undefined}
         >
-          <Wallet className="mr-2 h-4 w-4" />
+          {wallet?.info.icon ? (
+            <img src={wallet.info.icon} alt="" className="mr-2 h-4 w-4" />
+          ) : (
+            <Wallet className="mr-2 h-4 w-4" />
+          )}
           {formatAddress(account)}
         </Button>
       ) : (
-        <Button 
-          onClick={connectWallet} 
+        <Button
+          onClick={() => setPickerOpen(true)}
           disabled={isConnecting}
           className="bg-purple-600 hover:bg-purple-700"
         >
@@ -40,6 +77,57 @@ export const WalletConnect = () => {
           )}
         </Button>
       )}
+
+      <Dialog open={pickerOpen} onOpenChange={setPickerOpen}>
+        <DialogContent className="bg-gray-800 border-gray-700 text-white sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-purple-300">Connect a wallet</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Choose one of the wallets installed in this browser
+            </DialogDescription>
+          </DialogHeader>
+
+          {wallets.length > 0 ? (
+            <div className="space-y-2">
+              {wallets.map(detail => (
+                <Button
+                  key={detail.info.uuid}
+                  variant="outline"
+                  className="w-full justify-start border-gray-600 bg-gray-700 hover:bg-gray-600"
+                  onClick={() => handleSelect(detail)}
+                >
+                  {detail.info.icon ? (
+                    <img src={detail.info.icon} alt="" className="mr-3 h-6 w-6" />
+                  ) : (
+                    <Wallet className="mr-3 h-6 w-6" />
+                  )}
+                  {detail.info.name}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center text-gray-400 py-4 text-sm">
+              No wallet detected. Install a browser wallet such as MetaMask and reload the page.
+            </div>
+          )}
+
+          {isDevWalletAvailable && (
+            <div className="border-t border-gray-700 pt-4">
+              <Button
+                variant="outline"
+                className="w-full justify-start border-yellow-600 bg-gray-700 text-yellow-300 hover:bg-gray-600"
+                onClick={handleSelectDevWallet}
+              >
+                <FlaskConical className="mr-3 h-6 w-6" />
+                Anvil dev accounts
+              </Button>
+              <p className="mt-2 text-xs text-gray-400">
+                Signs in the page with anvil's public test keys. Local development only.
+              </p>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
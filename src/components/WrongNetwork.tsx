@@ -0,0 +1,44 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getDeployedNetworks, getNetworkName } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+
+export function WrongNetwork() {
+  const { chainId, switchNetwork } = useWeb3Provider();
+  const networks = getDeployedNetworks();
+
+  return (
+    <Card className="bg-gray-800 border-red-800">
+      <CardHeader>
+        <CardTitle className="flex items-center text-red-300">
+          <AlertTriangle className="h-5 w-5 mr-2" />
+          Wrong network
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Your wallet is connected to {getNetworkName(chainId)}, where MiniDex isn't available
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm text-gray-300">
+        {networks.length > 0 ? (
+          <>
+            <p>Switch to a supported network to continue:</p>
+            <div className="flex flex-wrap gap-2">
+              {networks.map(network => (
+                <Button
+                  key={network.chainId}
+                  onClick={() => switchNetwork(network.chainId)}
+                  className="bg-purple-600 hover:bg-purple-700"
+                >
+                  Switch to {network.name}
+                </Button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p>No deployments were found in the broadcast artifacts.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,16 +1,28 @@
 
 import { TokenBalance } from "@/hooks/useTokenBalances";
+import { AddLiquidityResult } from "@/hooks/useAddLiquidity";
+import { SimulationState } from "@/hooks/useSimulation";
+import { AddLiquidityPreview } from "@/lib/liquidity";
+import { formatTokenAmount } from "@/lib/tokenAmount";
+import { SimulationDetails } from "@/components/SimulationDetails";
 import { formatNumber } from "@/lib/utils";
 
+const formatPoolShare = (share: number) =>
+  share > 0 && share < 0.01 ? "<0.01%" : `${formatNumber(share, 2)}%`;
+
 interface LiquiditySummaryProps {
   tokenABalance: TokenBalance | null;
   tokenBBalance: TokenBalance | null;
+  preview: AddLiquidityPreview | null;
+  simulation: SimulationState<AddLiquidityResult> | null;
   error: string | null;
 }
 
 export function LiquiditySummary({
   tokenABalance,
   tokenBBalance,
+  preview,
+  simulation,
   error
 }: LiquiditySummaryProps) {
   return (
@@ -37,6 +49,58 @@ export function LiquiditySummary({
             </div>
           </div>
           
+          {preview && (
+            <div className="bg-gray-700 rounded-md p-3 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">{preview.isInitialDeposit ? "Initial price" : "Price"}</span>
+                {preview.price ? (
+                  <div className="text-right">
+                    <div>1 {tokenABalance.symbol} = {formatNumber(preview.price, 6)} {tokenBBalance.symbol}</div>
+                    <div>1 {tokenBBalance.symbol} = {formatNumber(1 / preview.price, 6)} {tokenABalance.symbol}</div>
+                  </div>
+                ) : (
+                  <span className="text-gray-400">Set by your deposit</span>
+                )}
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Share of pool</span>
+                <span>{formatPoolShare(preview.poolShare)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Expected LP tokens</span>
+                <span>{formatTokenAmount(preview.liquidity, 6)}</span>
+              </div>
+              {preview.isInitialDeposit && (
+                <div className="text-xs text-gray-400">
+                  The first deposit mints √(amountA × amountB) LP tokens, minus 1000 wei locked in the pool forever.
+                </div>
+              )}
+            </div>
+          )}
+
+          {simulation && (
+            <SimulationDetails
+              isSimulating={simulation.isSimulating}
+              awaitingApproval={simulation.awaitingApproval}
+              error={simulation.error}
+              gasCost={simulation.simulation?.gasCost ?? null}
+              rows={simulation.simulation ? [
+                {
+                  label: `Deposits ${tokenABalance.symbol}`,
+                  value: formatTokenAmount(simulation.simulation.result.amountA, 6)
+                },
+                {
+                  label: `Deposits ${tokenBBalance.symbol}`,
+                  value: formatTokenAmount(simulation.simulation.result.amountB, 6)
+                },
+                {
+                  label: "LP tokens minted",
+                  value: formatTokenAmount(simulation.simulation.result.liquidity, 6)
+                }
+              ] : []}
+            />
+          )}
+          
           {error && (
             <div className="mt-4 p-3 bg-red-900/40 border border-red-700/40 rounded-md text-red-300 text-sm">
               {error}
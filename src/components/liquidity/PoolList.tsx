@@ -1,6 +1,6 @@
 
 import { Input } from "@/components/ui/input";
-import { Pool } from "@/hooks/useLiquidityPools";
+import { Pool } from "@/hooks/usePools";
 import { Loader2 } from "lucide-react";
 
 interface PoolListProps {
@@ -0,0 +1,66 @@
+import { Loader2 } from "lucide-react";
+import { LiquidityPosition } from "@/hooks/useLiquidityPositions";
+import { formatTokenAmount } from "@/lib/tokenAmount";
+
+interface PositionListProps {
+  positions: LiquidityPosition[];
+  isLoading: boolean;
+  error: string | null;
+  selectedPairAddress: string | null;
+  onSelectPosition: (pairAddress: string) => void;
+}
+
+export function PositionList({
+  positions,
+  isLoading,
+  error,
+  selectedPairAddress,
+  onSelectPosition
+}: PositionListProps) {
+  return (
+    <div className="mb-4">
+      <h3 className="text-md font-medium mb-2">Your Liquidity Positions</h3>
+
+      <div className="bg-gray-800 rounded-md p-2 max-h-[200px] overflow-y-auto">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+          </div>
+        ) : error ? (
+          <div className="text-center text-red-400 py-4">
+            {error}
+          </div>
+        ) : positions.length > 0 ? (
+          <div className="grid grid-cols-2 gap-2">
+            {positions.map((position) => (
+              <div
+                key={position.pool.pairAddress}
+                className={`p-2 rounded-md cursor-pointer text-sm ${
+                  selectedPairAddress === position.pool.pairAddress ?
+                  'bg-purple-900 border border-purple-500' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                onClick={() => onSelectPosition(position.pool.pairAddress)}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-medium text-green-400">
+                    {position.pool.token0Symbol}/{position.pool.token1Symbol}
+                  </span>
+                  <span className="text-xs bg-gray-800 px-1.5 py-0.5 rounded-full">
+                    {position.share < 0.01 ? "<0.01" : position.share.toFixed(2)}%
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {formatTokenAmount(position.lpBalance)} LP
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-gray-400 py-4">
+            You have no liquidity positions
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
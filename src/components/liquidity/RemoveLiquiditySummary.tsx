@@ -0,0 +1,107 @@
+import { LiquidityPosition } from "@/hooks/useLiquidityPositions";
+import { RemoveLiquidityResult } from "@/hooks/useRemoveLiquidity";
+import { SimulationState } from "@/hooks/useSimulation";
+import { TokenAmount, formatTokenAmount } from "@/lib/tokenAmount";
+import { SimulationDetails } from "@/components/SimulationDetails";
+
+export interface RemoveLiquidityPreview {
+  liquidity: TokenAmount;
+  amount0: TokenAmount;
+  amount1: TokenAmount;
+  amount0Min: TokenAmount;
+  amount1Min: TokenAmount;
+}
+
+interface RemoveLiquiditySummaryProps {
+  position: LiquidityPosition | null;
+  preview: RemoveLiquidityPreview | null;
+  slippage: number;
+  simulation: SimulationState<RemoveLiquidityResult> | null;
+  error: string | null;
+}
+
+export function RemoveLiquiditySummary({
+  position,
+  preview,
+  slippage,
+  simulation,
+  error
+}: RemoveLiquiditySummaryProps) {
+  return (
+    <div className="bg-gray-800 rounded-md p-4 h-full">
+      <h3 className="text-md font-semibold text-purple-300 mb-3">Remove Liquidity Summary</h3>
+
+      {position && preview ? (
+        <div className="space-y-4">
+          <div className="bg-gray-700 rounded-md p-3">
+            <div className="flex justify-between items-center">
+              <div className="font-medium">LP tokens to burn</div>
+              <div>
+                {formatTokenAmount(preview.liquidity)}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-700 rounded-md p-3">
+            <div className="flex justify-between items-center">
+              <div className="font-medium">{position.pool.token0Symbol}</div>
+              <div>
+                {formatTokenAmount(preview.amount0)}
+              </div>
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              Minimum: {formatTokenAmount(preview.amount0Min)}
+            </div>
+          </div>
+
+          <div className="bg-gray-700 rounded-md p-3">
+            <div className="flex justify-between items-center">
+              <div className="font-medium">{position.pool.token1Symbol}</div>
+              <div>
+                {formatTokenAmount(preview.amount1)}
+              </div>
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              Minimum: {formatTokenAmount(preview.amount1Min)}
+            </div>
+          </div>
+
+          {simulation && (
+            <SimulationDetails
+              isSimulating={simulation.isSimulating}
+              awaitingApproval={simulation.awaitingApproval}
+              error={simulation.error}
+              gasCost={simulation.simulation?.gasCost ?? null}
+              rows={simulation.simulation ? [
+                {
+                  label: `Receives ${position.pool.token0Symbol}`,
+                  value: formatTokenAmount(simulation.simulation.result.amount0, 6)
+                },
+                {
+                  label: `Receives ${position.pool.token1Symbol}`,
+                  value: formatTokenAmount(simulation.simulation.result.amount1, 6)
+                }
+              ] : []}
+            />
+          )}
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-900/40 border border-red-700/40 rounded-md text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="border-t border-gray-700 pt-3 mt-3">
+            <div className="text-sm text-gray-400">
+              Minimums allow {slippage}% slippage. The transaction reverts if you would receive less.
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="text-gray-400 text-sm">
+          Select a position to preview the tokens you will receive
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 
 import { FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { TokenSelector } from "@/components/TokenSelector";
 import { Button } from "@/components/ui/button";
 import { UseFormReturn } from "react-hook-form";
 import { TokenBalance } from "@/hooks/useTokenBalances";
@@ -15,6 +16,8 @@ interface TokenInputFieldProps {
   tokenBalance: TokenBalance | null;
   isLoading: boolean;
   onMaxClick?: () => void;
+  // Called with the typed amount, e.g. to fill in the paired amount
+  onAmountChange?: (value: string) => void;
 }
 
 export function TokenInputField({
@@ -24,7 +27,8 @@ export function TokenInputField({
   label,
   tokenBalance,
   isLoading,
-  onMaxClick
+  onMaxClick,
+  onAmountChange
 }: TokenInputFieldProps) {
   return (
     <div className="space-y-4">
@@ -43,21 +47,16 @@ export function TokenInputField({
             </FormLabel>
             <FormControl>
               <div className="relative flex-grow">
-                <Input 
-                  placeholder="0x..." 
-                  {...field} 
-                  className="bg-gray-700 border-gray-600" 
-                  title={field.value} 
+                <TokenSelector
+                  value={field.value}
+                  onChange={field.onChange}
+                  symbol={tokenBalance?.symbol}
                 />
-                {isLoading ? (
-                  <div className="absolute right-2 top-1/2 transform -translate-y-1/2">
+                {isLoading && (
+                  <div className="absolute right-8 top-1/2 transform -translate-y-1/2">
                     <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
                   </div>
-                ) : tokenBalance ? (
-                  <div className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-gray-800 px-2 py-1 rounded text-xs text-green-400">
-                    {tokenBalance.symbol}
-                  </div>
-                ) : null}
+                )}
               </div>
             </FormControl>
             <FormMessage />
@@ -77,6 +76,10 @@ export function TokenInputField({
                   type="number" 
                   placeholder="0.0" 
                   {...field} 
+                  onChange={(e) => {
+                    field.onChange(e);
+                    onAmountChange?.(e.target.value);
+                  }}
                   className="bg-gray-700 border-gray-600 pr-16" 
                 />
                 {tokenBalance && onMaxClick && (
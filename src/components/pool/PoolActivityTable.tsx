@@ -0,0 +1,108 @@
+import { ExternalLink, Loader2 } from "lucide-react";
+import { ethers } from "ethers";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getExplorerTxUrl } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { PoolActivityEntry, PoolToken } from "@/hooks/usePoolDetails";
+import { formatTokenAmount, tokenAmount } from "@/lib/tokenAmount";
+
+const TYPE_STYLES: Record<PoolActivityEntry["type"], string> = {
+  Swap: "bg-purple-900 text-purple-300",
+  Mint: "bg-green-900 text-green-300",
+  Burn: "bg-red-900 text-red-300",
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatTime = (timestamp: number | null) =>
+  timestamp === null
+    ? "—"
+    : new Date(timestamp * 1000).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+// Swaps read as "in → out"; mints and burns list both amounts
+function describe(entry: PoolActivityEntry, token0: PoolToken, token1: PoolToken) {
+  const format = (token: PoolToken, amount: ethers.BigNumber) =>
+    `${formatTokenAmount(tokenAmount(token, amount.abs()))} ${token.symbol}`;
+
+  if (entry.type === "Swap") {
+    const [amountIn, amountOut] = entry.amount0.gt(0)
+      ? [format(token0, entry.amount0), format(token1, entry.amount1)]
+      : [format(token1, entry.amount1), format(token0, entry.amount0)];
+    return `${amountIn} → ${amountOut}`;
+  }
+
+  return `${format(token0, entry.amount0)} + ${format(token1, entry.amount1)}`;
+}
+
+interface PoolActivityTableProps {
+  activity: PoolActivityEntry[];
+  token0: PoolToken;
+  token1: PoolToken;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function PoolActivityTable({ activity, token0, token1, isLoading, error }: PoolActivityTableProps) {
+  const { chainId } = useWeb3Provider();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-center text-red-400 py-8">{error}</div>;
+  }
+
+  if (activity.length === 0) {
+    return <div className="text-center text-gray-400 py-8">No swaps or liquidity changes yet</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-gray-700 hover:bg-transparent">
+          <TableHead>Type</TableHead>
+          <TableHead>Amounts</TableHead>
+          <TableHead>Account</TableHead>
+          <TableHead className="text-right">Time</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {activity.map(entry => {
+          const explorerUrl = getExplorerTxUrl(chainId, entry.transactionHash);
+          // The router is the msg.sender of every pair call, so the recipient says more about who traded
+          const account = entry.to ?? entry.sender;
+
+          return (
+            <TableRow key={`${entry.transactionHash}-${entry.logIndex}`} className="border-gray-700 hover:bg-gray-700/50">
+              <TableCell>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${TYPE_STYLES[entry.type]}`}>{entry.type}</span>
+              </TableCell>
+              <TableCell className="text-sm">{describe(entry, token0, token1)}</TableCell>
+              <TableCell className="font-mono text-xs text-gray-400" title={account}>{formatAddress(account)}</TableCell>
+              <TableCell className="text-right text-xs text-gray-400">
+                {explorerUrl ? (
+                  <a
+                    href={explorerUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1 hover:text-purple-300"
+                  >
+                    {formatTime(entry.timestamp)}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                ) : (
+                  <span title={entry.transactionHash}>{formatTime(entry.timestamp)}</span>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { PoolDetails } from "@/hooks/usePoolDetails";
+import { usePairHistory } from "@/hooks/usePairHistory";
+import { HISTORY_INTERVALS, HistoryInterval, HistoryPoint, bucketPairHistory } from "@/lib/pairHistory";
+import { formatNumber } from "@/lib/utils";
+
+type Metric = "price" | "tvl" | "volume";
+
+const METRIC_LABELS: Record<Metric, string> = {
+  price: "Price",
+  tvl: "TVL",
+  volume: "Volume",
+};
+
+const chartConfig = {
+  price: { label: "Price", color: "#a855f7" },
+  tvl: { label: "TVL", color: "#22c55e" },
+  volume: { label: "Volume", color: "#3b82f6" },
+} satisfies ChartConfig;
+
+// Short axis ticks; bucket sizes of a day or more don't need the time of day
+const formatTick = (time: number, interval: HistoryInterval) =>
+  new Date(time * 1000).toLocaleString(undefined, HISTORY_INTERVALS[interval].seconds >= 86400
+    ? { month: "short", day: "numeric" }
+    : { hour: "2-digit", minute: "2-digit" });
+
+const formatTooltipTime = (payload: { payload?: HistoryPoint }[]) => {
+  const time = payload[0]?.payload?.time;
+  return time ? new Date(time * 1000).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : "";
+};
+
+export function PoolHistoryChart({ pool }: { pool: PoolDetails }) {
+  const [metric, setMetric] = useState<Metric>("price");
+  const [interval, setSelectedInterval] = useState<HistoryInterval>("1h");
+  const { history, isLoading, error } = usePairHistory(pool);
+
+  const points = useMemo(
+    () => (history ? bucketPairHistory(history, pool.token0.decimals, pool.token1.decimals, interval) : []),
+    [history, pool.token0.decimals, pool.token1.decimals, interval]
+  );
+
+  const unit = metric === "price"
+    ? `${pool.token1.symbol} per ${pool.token0.symbol}`
+    : `in ${pool.token1.symbol}`;
+
+  const axisProps = {
+    dataKey: "time",
+    tickLine: false,
+    axisLine: false,
+    minTickGap: 32,
+    tickFormatter: (time: number) => formatTick(time, interval),
+  };
+
+  const tooltip = (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) => formatTooltipTime(payload)}
+          formatter={(value) => `${formatNumber(Number(value), 6)} ${pool.token1.symbol}`}
+        />
+      }
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          value={metric}
+          onValueChange={(value) => value && setMetric(value as Metric)}
+          className="justify-start"
+        >
+          {(Object.keys(METRIC_LABELS) as Metric[]).map(key => (
+            <ToggleGroupItem key={key} value={key} size="sm" className="data-[state=on]:bg-purple-900">
+              {METRIC_LABELS[key]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          value={interval}
+          onValueChange={(value) => value && setSelectedInterval(value as HistoryInterval)}
+        >
+          {(Object.keys(HISTORY_INTERVALS) as HistoryInterval[]).map(key => (
+            <ToggleGroupItem key={key} value={key} size="sm" className="data-[state=on]:bg-purple-900">
+              {HISTORY_INTERVALS[key].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="text-xs text-gray-400">
+        {METRIC_LABELS[metric]} ({unit}), per {HISTORY_INTERVALS[interval].label} bucket
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center py-16 text-sm text-gray-400">
+          <Loader2 className="h-6 w-6 animate-spin text-purple-400 mb-2" />
+          Scanning the pair's history...
+        </div>
+      ) : error ? (
+        <div className="text-center text-red-400 py-16">{error}</div>
+      ) : points.length === 0 ? (
+        <div className="text-center text-gray-400 py-16">No liquidity has been added to this pool yet</div>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-[280px] w-full aspect-auto">
+          {metric === "volume" ? (
+            <BarChart data={points}>
+              <CartesianGrid vertical={false} stroke="#374151" />
+              <XAxis {...axisProps} />
+              <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value: number) => formatNumber(value, 2)} />
+              {tooltip}
+              <Bar dataKey="volume" fill="var(--color-volume)" radius={2} />
+            </BarChart>
+          ) : (
+            <AreaChart data={points}>
+              <CartesianGrid vertical={false} stroke="#374151" />
+              <XAxis {...axisProps} />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={64}
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => formatNumber(value, 4)}
+              />
+              {tooltip}
+              <Area
+                dataKey={metric}
+                type="stepAfter"
+                stroke={`var(--color-${metric})`}
+                fill={`var(--color-${metric})`}
+                fillOpacity={0.2}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          )}
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { Loader2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SortableTableHead } from "@/components/SortableTableHead";
+import { LiquidityPosition } from "@/hooks/useLiquidityPositions";
+import { useSortableRows } from "@/hooks/useSortableRows";
+import { TokenAmount, formatTokenAmount } from "@/lib/tokenAmount";
+import { formatNumber } from "@/lib/utils";
+
+export interface PositionRow {
+  position: LiquidityPosition;
+  // What burning the whole LP balance would return right now
+  amount0: TokenAmount;
+  amount1: TokenAmount;
+  value: number | null; // In the quote token; null if either side can't be priced
+}
+
+type PositionSortKey = "pool" | "share" | "value";
+
+const getSortValue = (row: PositionRow, key: PositionSortKey) => {
+  if (key === "pool") return `${row.position.pool.token0Symbol}/${row.position.pool.token1Symbol}`;
+  if (key === "share") return row.position.share;
+  return row.value;
+};
+
+interface PositionsTableProps {
+  rows: PositionRow[];
+  totalValue: number;
+  quoteSymbol: string;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function PositionsTable({ rows, totalValue, quoteSymbol, isLoading, error }: PositionsTableProps) {
+  const { sortedRows, sort, toggleSort } = useSortableRows(rows, getSortValue, { key: "value", direction: "desc" });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-center text-red-400 py-8">{error}</div>;
+  }
+
+  if (rows.length === 0) {
+    return <div className="text-center text-gray-400 py-8">You have no liquidity positions</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-gray-700 hover:bg-transparent">
+          <SortableTableHead label="Pool" sortKey="pool" sort={sort} onSort={toggleSort} />
+          <SortableTableHead label="Share" sortKey="share" sort={sort} onSort={toggleSort} className="text-right" />
+          <TableHead className="text-right text-gray-400">Redeemable</TableHead>
+          <SortableTableHead label={`Value (${quoteSymbol})`} sortKey="value" sort={sort} onSort={toggleSort} className="text-right" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedRows.map(({ position, amount0, amount1, value }) => (
+          <TableRow key={position.pool.pairAddress} className="border-gray-700 hover:bg-gray-700/50">
+            <TableCell>
+              <div className="font-medium text-green-400">
+                {position.pool.token0Symbol}/{position.pool.token1Symbol}
+              </div>
+              <div className="text-xs text-gray-400">{formatTokenAmount(position.lpBalance)} LP</div>
+            </TableCell>
+            <TableCell className="text-right">
+              {position.share < 0.01 ? "<0.01" : position.share.toFixed(2)}%
+            </TableCell>
+            <TableCell className="text-right text-sm">
+              <div>{formatTokenAmount(amount0)} {amount0.token.symbol}</div>
+              <div>{formatTokenAmount(amount1)} {amount1.token.symbol}</div>
+            </TableCell>
+            <TableCell className="text-right">
+              {value === null ? <span className="text-gray-500">—</span> : formatNumber(value, 2)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter className="bg-gray-900/40">
+        <TableRow className="border-gray-700 hover:bg-transparent">
+          <TableCell colSpan={3}>Total</TableCell>
+          <TableCell className="text-right">{formatNumber(totalValue, 2)} {quoteSymbol}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
@@ -0,0 +1,83 @@
+import { ethers } from "ethers";
+import { Loader2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableFooter, TableHeader, TableRow } from "@/components/ui/table";
+import { SortableTableHead } from "@/components/SortableTableHead";
+import { useSortableRows } from "@/hooks/useSortableRows";
+import { TokenAmount, formatTokenAmount } from "@/lib/tokenAmount";
+import { formatNumber } from "@/lib/utils";
+
+export interface TokenBalanceRow {
+  balance: TokenAmount;
+  price: number | null; // In the quote token; null when no pool path reaches it
+  value: number | null;
+}
+
+type TokenSortKey = "token" | "balance" | "price" | "value";
+
+const getSortValue = (row: TokenBalanceRow, key: TokenSortKey) => {
+  if (key === "token") return row.balance.token.symbol;
+  if (key === "balance") return parseFloat(ethers.utils.formatUnits(row.balance.raw, row.balance.token.decimals));
+  if (key === "price") return row.price;
+  return row.value;
+};
+
+interface TokenBalancesTableProps {
+  rows: TokenBalanceRow[];
+  totalValue: number;
+  quoteSymbol: string;
+  isLoading: boolean;
+}
+
+export function TokenBalancesTable({ rows, totalValue, quoteSymbol, isLoading }: TokenBalancesTableProps) {
+  const { sortedRows, sort, toggleSort } = useSortableRows(rows, getSortValue, { key: "value", direction: "desc" });
+
+  if (isLoading && rows.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return <div className="text-center text-gray-400 py-8">No tokens in any pool yet</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-gray-700 hover:bg-transparent">
+          <SortableTableHead label="Token" sortKey="token" sort={sort} onSort={toggleSort} />
+          <SortableTableHead label="Balance" sortKey="balance" sort={sort} onSort={toggleSort} className="text-right" />
+          <SortableTableHead label={`Price (${quoteSymbol})`} sortKey="price" sort={sort} onSort={toggleSort} className="text-right" />
+          <SortableTableHead label={`Value (${quoteSymbol})`} sortKey="value" sort={sort} onSort={toggleSort} className="text-right" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedRows.map(({ balance, price, value }) => (
+          <TableRow key={balance.token.address} className="border-gray-700 hover:bg-gray-700/50">
+            <TableCell>
+              <div className="font-medium">{balance.token.symbol}</div>
+              <div className="font-mono text-xs text-gray-400">
+                {balance.token.address.slice(0, 6)}...{balance.token.address.slice(-4)}
+              </div>
+            </TableCell>
+            <TableCell className="text-right">{formatTokenAmount(balance)}</TableCell>
+            <TableCell className="text-right">
+              {price === null ? <span className="text-gray-500">—</span> : formatNumber(price, 6)}
+            </TableCell>
+            <TableCell className="text-right">
+              {value === null ? <span className="text-gray-500">—</span> : formatNumber(value, 2)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter className="bg-gray-900/40">
+        <TableRow className="border-gray-700 hover:bg-transparent">
+          <TableCell colSpan={3}>Total</TableCell>
+          <TableCell className="text-right">{formatNumber(totalValue, 2)} {quoteSymbol}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
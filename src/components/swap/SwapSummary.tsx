@@ -1,22 +1,56 @@
 
+import { Fragment } from "react";
+import { ChevronRight } from "lucide-react";
+import { BigNumber } from "ethers";
 import { TokenInfo } from "@/hooks/useTokenInfo";
-import { formatNumber } from "@/lib/utils";
+import { SimulationState } from "@/hooks/useSimulation";
+import { PriceImpactSeverity, TradeBreakdown, getPriceImpactSeverity } from "@/lib/priceImpact";
+import { Route, TradeType } from "@/lib/routing";
+import { TokenAmount, formatTokenAmount, tokenAmount } from "@/lib/tokenAmount";
+import { cn, formatNumber } from "@/lib/utils";
+import { SimulationDetails } from "@/components/SimulationDetails";
+
+const IMPACT_COLORS: Record<PriceImpactSeverity, string> = {
+  none: "text-green-400",
+  low: "text-yellow-400",
+  medium: "text-orange-400",
+  high: "text-red-400"
+};
 
 interface SwapSummaryProps {
   tokenInInfo: TokenInfo | null;
   tokenOutInfo: TokenInfo | null;
+  tradeType: TradeType;
   amountIn: string;
   expectedOutput: string;
+  route: Route | null;
+  routeAmounts: TokenAmount[];
+  breakdown: TradeBreakdown | null;
+  // Minimum received for exact input trades, maximum sold for exact output trades
+  slippageLimit: TokenAmount | null;
+  slippage: number;
+  // Router amounts for every hop, from the dry run of the swap
+  simulation: SimulationState<BigNumber[]> | null;
   error: string | null;
 }
 
 export function SwapSummary({
   tokenInInfo,
   tokenOutInfo,
+  tradeType,
   amountIn,
   expectedOutput,
+  route,
+  routeAmounts,
+  breakdown,
+  slippageLimit,
+  slippage,
+  simulation,
   error
 }: SwapSummaryProps) {
+  const severity = breakdown ? getPriceImpactSeverity(breakdown.priceImpact) : "none";
+  const simulatedAmounts = simulation?.simulation?.result;
+
   return (
     <div className="bg-gray-800 rounded-md p-4">
       <h3 className="text-md font-semibold text-purple-300 mb-3">Swap Summary</h3>
@@ -25,7 +59,7 @@ export function SwapSummary({
         <div className="space-y-4">
           <div className="bg-gray-700 rounded-md p-3">
             <div className="flex justify-between items-center">
-              <div className="font-medium">You pay</div>
+              <div className="font-medium">{tradeType === "exactOut" ? "You pay (estimated)" : "You pay"}</div>
               <div>
                 {amountIn ? formatNumber(amountIn) : "0"} {tokenInInfo.symbol}
               </div>
@@ -37,7 +71,7 @@ export function SwapSummary({
           
           <div className="bg-gray-700 rounded-md p-3">
             <div className="flex justify-between items-center">
-              <div className="font-medium">You receive</div>
+              <div className="font-medium">{tradeType === "exactIn" ? "You receive (estimated)" : "You receive"}</div>
               <div>
                 {expectedOutput ? formatNumber(expectedOutput) : "0"} {tokenOutInfo.symbol}
               </div>
@@ -47,6 +81,99 @@ export function SwapSummary({
             </div>
           </div>
           
+          {route && (
+            <div className="bg-gray-700 rounded-md p-3">
+              <div className="font-medium mb-2">Route</div>
+              <div className="flex flex-wrap items-center text-sm text-green-400">
+                {route.symbols.map((symbol, index) => (
+                  <Fragment key={route.path[index]}>
+                    {index > 0 && <ChevronRight className="h-4 w-4 mx-1 text-gray-400" />}
+                    <span title={route.path[index]}>{symbol}</span>
+                  </Fragment>
+                ))}
+              </div>
+              {routeAmounts.length === route.path.length && (
+                <div className="mt-2 space-y-1">
+                  {route.hops.map((hop, index) => (
+                    <div key={hop.pairAddress} className="flex justify-between text-xs text-gray-400">
+                      <span>Hop {index + 1}</span>
+                      <span>
+                        {formatTokenAmount(routeAmounts[index])} {hop.symbolIn} → {formatTokenAmount(routeAmounts[index + 1])} {hop.symbolOut}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          
+          {breakdown && tokenInInfo && tokenOutInfo && (
+            <div className="bg-gray-700 rounded-md p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Mid price</span>
+                <span>1 {tokenInInfo.symbol} = {formatNumber(breakdown.midPrice, 6)} {tokenOutInfo.symbol}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Execution price</span>
+                <span>1 {tokenInInfo.symbol} = {formatNumber(breakdown.executionPrice, 6)} {tokenOutInfo.symbol}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Price impact</span>
+                <span className={IMPACT_COLORS[severity]}>
+                  {breakdown.priceImpact < 0.01 ? "<0.01" : breakdown.priceImpact.toFixed(2)}%
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Liquidity provider fee</span>
+                <span>{formatTokenAmount(breakdown.lpFee, 6)} {tokenInInfo.symbol}</span>
+              </div>
+              {slippageLimit && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">
+                    {tradeType === "exactIn" ? "Minimum received" : "Maximum sold"} ({slippage}% slippage)
+                  </span>
+                  <span>{formatTokenAmount(slippageLimit, 6)} {slippageLimit.token.symbol}</span>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {severity !== "none" && (
+            <div
+              className={cn(
+                "p-3 rounded-md text-sm",
+                severity === "high" ? "bg-red-900/40 text-red-300" :
+                severity === "medium" ? "bg-orange-900/40 text-orange-300" :
+                "bg-yellow-900/40 text-yellow-300"
+              )}
+            >
+              {severity === "high"
+                ? "This trade moves the price a lot and you may lose a significant share of your funds. You must confirm the price impact to swap."
+                : severity === "medium"
+                  ? "High price impact. Consider swapping a smaller amount."
+                  : "This trade has a noticeable price impact."}
+            </div>
+          )}
+          
+          {simulation && tokenInInfo && tokenOutInfo && (
+            <SimulationDetails
+              isSimulating={simulation.isSimulating}
+              awaitingApproval={simulation.awaitingApproval}
+              error={simulation.error}
+              gasCost={simulation.simulation?.gasCost ?? null}
+              rows={simulatedAmounts ? [
+                {
+                  label: "Pays",
+                  value: `${formatTokenAmount(tokenAmount(tokenInInfo, simulatedAmounts[0]), 6)} ${tokenInInfo.symbol}`
+                },
+                {
+                  label: "Receives",
+                  value: `${formatTokenAmount(tokenAmount(tokenOutInfo, simulatedAmounts[simulatedAmounts.length - 1]), 6)} ${tokenOutInfo.symbol}`
+                }
+              ] : []}
+            />
+          )}
+          
           {error && (
             <div className="bg-red-900/40 text-red-300 p-3 rounded-md text-sm">
               {error}
@@ -55,7 +182,7 @@ export function SwapSummary({
           
           <div className="border-t border-gray-700 pt-3 mt-3">
             <div className="text-sm text-gray-400">
-              Swap tokens directly through the protocol's liquidity pools.
+              Swaps are routed through up to three of the protocol's liquidity pools to get the best price.
             </div>
           </div>
         </div>
@@ -1,5 +1,6 @@
 
 import { Input } from "@/components/ui/input";
+import { TokenSelector } from "@/components/TokenSelector";
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { UseFormReturn } from "react-hook-form";
@@ -53,21 +54,16 @@ export function TokenField({
           <FormControl>
             <div className="flex space-x-2">
               <div className="relative flex-grow">
-                <Input 
-                  placeholder="Token Address (0x...)" 
-                  {...field} 
-                  className="flex-grow bg-gray-700 border-gray-600" 
-                  title={field.value} 
+                <TokenSelector
+                  value={field.value}
+                  onChange={field.onChange}
+                  symbol={tokenInfo?.symbol}
                 />
-                {isLoading ? (
-                  <div className="absolute right-2 top-1/2 transform -translate-y-1/2">
+                {isLoading && (
+                  <div className="absolute right-8 top-1/2 transform -translate-y-1/2">
                     <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
                   </div>
-                ) : tokenInfo ? (
-                  <div className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-gray-800 px-2 py-1 rounded text-xs text-green-400">
-                    {tokenInfo.symbol}
-                  </div>
-                ) : null}
+                )}
               </div>
               {amountName && (
                 <div className="relative w-1/3">
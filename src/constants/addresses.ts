@@ -1,5 +0,0 @@
-
-// These addresses should be updated with the actual deployed contract addresses
-export const FACTORY_ADDRESS = import.meta.env.VITE_FACTORY_ADDRESS || "0x5FbDB2315678afecb367f032d93F642f64180aa3";
-export const ROUTER_ADDRESS = import.meta.env.VITE_ROUTER_ADDRESS || "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
-export const TOKEN_FACTORY_ADDRESS = import.meta.env.VITE_TOKEN_FACTORY_ADDRESS || "0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0";
@@ -0,0 +1,88 @@
+import { ethers } from "ethers";
+
+export interface Deployment {
+  factory: string;
+  router: string;
+  tokenFactory: string;
+  // Optional: reads fall back to individual calls without it
+  multicall?: string;
+  // First block holding any of the contracts above; log scans start here instead of genesis
+  deploymentBlock?: number;
+}
+
+interface BroadcastTransaction {
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+}
+
+interface BroadcastReceipt {
+  contractAddress: string | null;
+  blockNumber: string; // Hex
+}
+
+interface BroadcastRun {
+  chain?: number;
+  timestamp?: number; // When the run was broadcast
+  transactions: BroadcastTransaction[];
+  receipts?: BroadcastReceipt[];
+}
+
+// Contract names in the Foundry scripts, mapped to their Deployment field
+const CONTRACT_KEYS: Record<string, Exclude<keyof Deployment, "deploymentBlock">> = {
+  MiniDexFactory: "factory",
+  Router: "router",
+  TokenFactory: "tokenFactory",
+  Multicall: "multicall",
+};
+
+// Every `forge script --broadcast` run writes broadcast/<script>/<chainId>/run-latest.json
+const broadcastRuns = import.meta.glob<BroadcastRun>("/broadcast/*/*/run-latest.json", {
+  eager: true,
+  import: "default",
+});
+
+function loadDeployments(): Record<number, Partial<Deployment>> {
+  const deployments: Record<number, Partial<Deployment>> = {};
+  // Creation block of each address kept in `deployments`; a later redeploy replaces the older block
+  const blockNumbers: Record<number, Partial<Record<keyof Deployment, number>>> = {};
+
+  // Glob order follows script names, not history, so replay runs oldest first and let the newest deploy win
+  const runs = Object.entries(broadcastRuns).sort(([, a], [, b]) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+
+  for (const [path, run] of runs) {
+    const chainId = run.chain ?? Number(path.split("/")[3]);
+    if (!chainId) continue;
+
+    const deployment = deployments[chainId] || (deployments[chainId] = {});
+    const blocks = blockNumbers[chainId] || (blockNumbers[chainId] = {});
+    for (const tx of run.transactions) {
+      const key = tx.contractName && CONTRACT_KEYS[tx.contractName];
+      if (tx.transactionType === "CREATE" && key && tx.contractAddress) {
+        deployment[key] = ethers.utils.getAddress(tx.contractAddress);
+        const receipt = run.receipts?.find(r => r.contractAddress?.toLowerCase() === tx.contractAddress!.toLowerCase());
+        if (receipt) blocks[key] = parseInt(receipt.blockNumber, 16);
+        else delete blocks[key];
+      }
+    }
+  }
+
+  for (const [chainId, blocks] of Object.entries(blockNumbers)) {
+    const known = Object.values(blocks);
+    if (known.length > 0) deployments[Number(chainId)].deploymentBlock = Math.min(...known);
+  }
+
+  return deployments;
+}
+
+const DEPLOYMENTS = loadDeployments();
+
+// Addresses of the protocol on a chain, or null if any required contract is missing from the broadcasts
+export function getDeployment(chainId: number | null | undefined): Deployment | null {
+  if (!chainId) return null;
+
+  const deployment = DEPLOYMENTS[chainId];
+  if (!deployment?.factory || !deployment.router || !deployment.tokenFactory) return null;
+
+  return deployment as Deployment;
+}
@@ -0,0 +1,61 @@
+import { Deployment, getDeployment } from "@/constants/deployments";
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // From the Foundry broadcasts; null until the protocol is deployed there
+  contracts: Deployment | null;
+}
+
+const NETWORKS: Omit<NetworkConfig, "contracts">[] = [
+  {
+    chainId: 31337,
+    name: "Anvil Local",
+    rpcUrl: "http://localhost:8545",
+    explorerUrl: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  },
+  {
+    chainId: 11155111,
+    name: "Sepolia",
+    rpcUrl: "https://rpc.sepolia.org",
+    explorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+  },
+];
+
+export const SUPPORTED_NETWORKS: NetworkConfig[] = NETWORKS.map(network => ({
+  ...network,
+  contracts: getDeployment(network.chainId),
+}));
+
+export function getNetworkConfig(chainId: number | null | undefined): NetworkConfig | null {
+  return SUPPORTED_NETWORKS.find(network => network.chainId === chainId) ?? null;
+}
+
+// Chains the app can trade on: configured and with the protocol deployed
+export function getDeployedNetworks(): NetworkConfig[] {
+  return SUPPORTED_NETWORKS.filter(network => network.contracts);
+}
+
+export function isSupportedChain(chainId: number | null | undefined): boolean {
+  return !!getNetworkConfig(chainId)?.contracts;
+}
+
+// The first deployed network, where read-only visitors land
+export const DEFAULT_NETWORK = getDeployedNetworks()[0] ?? SUPPORTED_NETWORKS[0];
+
+// Node used for reads before a wallet is connected; override with VITE_RPC_URL
+export const READ_ONLY_RPC_URL = import.meta.env.VITE_RPC_URL || DEFAULT_NETWORK.rpcUrl;
+
+export function getExplorerTxUrl(chainId: number | null | undefined, hash: string): string | null {
+  const explorerUrl = getNetworkConfig(chainId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl}/tx/${hash}` : null;
+}
+
+export function getNetworkName(chainId: number | null | undefined): string {
+  return getNetworkConfig(chainId)?.name ?? `Chain ${chainId ?? "unknown"}`;
+}
@@ -0,0 +1,171 @@
+// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.
+
+import { BaseContract, BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, PopulatedTransaction, Signer, providers } from "ethers";
+
+export const miniDexFactoryAbi = [
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "token0",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "token1",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "pair",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "PairCreated",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "allPairs",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "allPairsLength",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "tokenA",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "tokenB",
+        "type": "address"
+      }
+    ],
+    "name": "createPair",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "pair",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "getPair",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+export interface MiniDexFactoryPairCreatedEventArgs {
+  token0: string;
+  token1: string;
+  pair: string;
+  arg3: BigNumber;
+}
+
+export interface MiniDexFactory extends BaseContract {
+  connect(signerOrProvider: Signer | providers.Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  allPairs(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  allPairsLength(overrides?: CallOverrides): Promise<BigNumber>;
+  createPair(tokenA: string, tokenB: string, overrides?: Overrides): Promise<ContractTransaction>;
+  getPair(arg0: string, arg1: string, overrides?: CallOverrides): Promise<string>;
+
+  functions: {
+    allPairs(arg0: BigNumberish, overrides?: CallOverrides): Promise<[string]>;
+    allPairsLength(overrides?: CallOverrides): Promise<[BigNumber]>;
+    createPair(tokenA: string, tokenB: string, overrides?: Overrides): Promise<ContractTransaction>;
+    getPair(arg0: string, arg1: string, overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  callStatic: {
+    allPairs(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    allPairsLength(overrides?: CallOverrides): Promise<BigNumber>;
+    createPair(tokenA: string, tokenB: string, overrides?: CallOverrides): Promise<string>;
+    getPair(arg0: string, arg1: string, overrides?: CallOverrides): Promise<string>;
+  };
+
+  estimateGas: {
+    allPairs(arg0: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    allPairsLength(overrides?: Overrides): Promise<BigNumber>;
+    createPair(tokenA: string, tokenB: string, overrides?: Overrides): Promise<BigNumber>;
+    getPair(arg0: string, arg1: string, overrides?: Overrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    allPairs(arg0: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    allPairsLength(overrides?: Overrides): Promise<PopulatedTransaction>;
+    createPair(tokenA: string, tokenB: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    getPair(arg0: string, arg1: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+  };
+
+  filters: {
+    PairCreated(token0?: string | null, token1?: string | null, pair?: null, arg3?: null): EventFilter;
+  };
+}
+
+export function getMiniDexFactory(address: string, signerOrProvider: Signer | providers.Provider): MiniDexFactory {
+  return new Contract(address, miniDexFactoryAbi, signerOrProvider) as unknown as MiniDexFactory;
+}
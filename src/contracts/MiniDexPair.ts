@@ -0,0 +1,671 @@
+// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.
+
+import { BaseContract, BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, PopulatedTransaction, Signer, providers } from "ethers";
+
+export const miniDexPairAbi = [
+  {
+    "inputs": [],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Approval",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount0",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount1",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "Burn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount0",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount1",
+        "type": "uint256"
+      }
+    ],
+    "name": "Mint",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount0In",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount1In",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount0Out",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount1Out",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "Swap",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint112",
+        "name": "reserve0",
+        "type": "uint112"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint112",
+        "name": "reserve1",
+        "type": "uint112"
+      }
+    ],
+    "name": "Sync",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Transfer",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "MINIMUM_LIQUIDITY",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "allowance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "approve",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "burn",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount0",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount1",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "factory",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getReserves",
+    "outputs": [
+      {
+        "internalType": "uint112",
+        "name": "_reserve0",
+        "type": "uint112"
+      },
+      {
+        "internalType": "uint112",
+        "name": "_reserve1",
+        "type": "uint112"
+      },
+      {
+        "internalType": "uint32",
+        "name": "_blockTimestampLast",
+        "type": "uint32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_token0",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_token1",
+        "type": "address"
+      }
+    ],
+    "name": "initialize",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "mint",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "liquidity",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount0Out",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount1Out",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "swap",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token0",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token1",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalSupply",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "transfer",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "transferFrom",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+export interface MiniDexPairApprovalEventArgs {
+  owner: string;
+  spender: string;
+  value: BigNumber;
+}
+
+export interface MiniDexPairBurnEventArgs {
+  sender: string;
+  amount0: BigNumber;
+  amount1: BigNumber;
+  to: string;
+}
+
+export interface MiniDexPairMintEventArgs {
+  sender: string;
+  amount0: BigNumber;
+  amount1: BigNumber;
+}
+
+export interface MiniDexPairSwapEventArgs {
+  sender: string;
+  amount0In: BigNumber;
+  amount1In: BigNumber;
+  amount0Out: BigNumber;
+  amount1Out: BigNumber;
+  to: string;
+}
+
+export interface MiniDexPairSyncEventArgs {
+  reserve0: BigNumber;
+  reserve1: BigNumber;
+}
+
+export interface MiniDexPairTransferEventArgs {
+  from: string;
+  to: string;
+  value: BigNumber;
+}
+
+export interface MiniDexPair extends BaseContract {
+  connect(signerOrProvider: Signer | providers.Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  MINIMUM_LIQUIDITY(overrides?: CallOverrides): Promise<BigNumber>;
+  allowance(arg0: string, arg1: string, overrides?: CallOverrides): Promise<BigNumber>;
+  approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  balanceOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  burn(to: string, overrides?: Overrides): Promise<ContractTransaction>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  factory(overrides?: CallOverrides): Promise<string>;
+  getReserves(overrides?: CallOverrides): Promise<[BigNumber, BigNumber, number] & { _reserve0: BigNumber; _reserve1: BigNumber; _blockTimestampLast: number }>;
+  initialize(_token0: string, _token1: string, overrides?: Overrides): Promise<ContractTransaction>;
+  mint(to: string, overrides?: Overrides): Promise<ContractTransaction>;
+  name(overrides?: CallOverrides): Promise<string>;
+  swap(amount0Out: BigNumberish, amount1Out: BigNumberish, to: string, overrides?: Overrides): Promise<ContractTransaction>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  token0(overrides?: CallOverrides): Promise<string>;
+  token1(overrides?: CallOverrides): Promise<string>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+
+  functions: {
+    MINIMUM_LIQUIDITY(overrides?: CallOverrides): Promise<[BigNumber]>;
+    allowance(arg0: string, arg1: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+    balanceOf(arg0: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    burn(to: string, overrides?: Overrides): Promise<ContractTransaction>;
+    decimals(overrides?: CallOverrides): Promise<[number]>;
+    factory(overrides?: CallOverrides): Promise<[string]>;
+    getReserves(overrides?: CallOverrides): Promise<[BigNumber, BigNumber, number] & { _reserve0: BigNumber; _reserve1: BigNumber; _blockTimestampLast: number }>;
+    initialize(_token0: string, _token1: string, overrides?: Overrides): Promise<ContractTransaction>;
+    mint(to: string, overrides?: Overrides): Promise<ContractTransaction>;
+    name(overrides?: CallOverrides): Promise<[string]>;
+    swap(amount0Out: BigNumberish, amount1Out: BigNumberish, to: string, overrides?: Overrides): Promise<ContractTransaction>;
+    symbol(overrides?: CallOverrides): Promise<[string]>;
+    token0(overrides?: CallOverrides): Promise<[string]>;
+    token1(overrides?: CallOverrides): Promise<[string]>;
+    totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    MINIMUM_LIQUIDITY(overrides?: CallOverrides): Promise<BigNumber>;
+    allowance(arg0: string, arg1: string, overrides?: CallOverrides): Promise<BigNumber>;
+    approve(spender: string, value: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+    balanceOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    burn(to: string, overrides?: CallOverrides): Promise<[BigNumber, BigNumber] & { amount0: BigNumber; amount1: BigNumber }>;
+    decimals(overrides?: CallOverrides): Promise<number>;
+    factory(overrides?: CallOverrides): Promise<string>;
+    getReserves(overrides?: CallOverrides): Promise<[BigNumber, BigNumber, number] & { _reserve0: BigNumber; _reserve1: BigNumber; _blockTimestampLast: number }>;
+    initialize(_token0: string, _token1: string, overrides?: CallOverrides): Promise<void>;
+    mint(to: string, overrides?: CallOverrides): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<string>;
+    swap(amount0Out: BigNumberish, amount1Out: BigNumberish, to: string, overrides?: CallOverrides): Promise<void>;
+    symbol(overrides?: CallOverrides): Promise<string>;
+    token0(overrides?: CallOverrides): Promise<string>;
+    token1(overrides?: CallOverrides): Promise<string>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transfer(to: string, value: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+  };
+
+  estimateGas: {
+    MINIMUM_LIQUIDITY(overrides?: Overrides): Promise<BigNumber>;
+    allowance(arg0: string, arg1: string, overrides?: Overrides): Promise<BigNumber>;
+    approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    balanceOf(arg0: string, overrides?: Overrides): Promise<BigNumber>;
+    burn(to: string, overrides?: Overrides): Promise<BigNumber>;
+    decimals(overrides?: Overrides): Promise<BigNumber>;
+    factory(overrides?: Overrides): Promise<BigNumber>;
+    getReserves(overrides?: Overrides): Promise<BigNumber>;
+    initialize(_token0: string, _token1: string, overrides?: Overrides): Promise<BigNumber>;
+    mint(to: string, overrides?: Overrides): Promise<BigNumber>;
+    name(overrides?: Overrides): Promise<BigNumber>;
+    swap(amount0Out: BigNumberish, amount1Out: BigNumberish, to: string, overrides?: Overrides): Promise<BigNumber>;
+    symbol(overrides?: Overrides): Promise<BigNumber>;
+    token0(overrides?: Overrides): Promise<BigNumber>;
+    token1(overrides?: Overrides): Promise<BigNumber>;
+    totalSupply(overrides?: Overrides): Promise<BigNumber>;
+    transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    MINIMUM_LIQUIDITY(overrides?: Overrides): Promise<PopulatedTransaction>;
+    allowance(arg0: string, arg1: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    balanceOf(arg0: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    burn(to: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    decimals(overrides?: Overrides): Promise<PopulatedTransaction>;
+    factory(overrides?: Overrides): Promise<PopulatedTransaction>;
+    getReserves(overrides?: Overrides): Promise<PopulatedTransaction>;
+    initialize(_token0: string, _token1: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    mint(to: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    name(overrides?: Overrides): Promise<PopulatedTransaction>;
+    swap(amount0Out: BigNumberish, amount1Out: BigNumberish, to: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    symbol(overrides?: Overrides): Promise<PopulatedTransaction>;
+    token0(overrides?: Overrides): Promise<PopulatedTransaction>;
+    token1(overrides?: Overrides): Promise<PopulatedTransaction>;
+    totalSupply(overrides?: Overrides): Promise<PopulatedTransaction>;
+    transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+  };
+
+  filters: {
+    Approval(owner?: string | null, spender?: string | null, value?: null): EventFilter;
+    Burn(sender?: string | null, amount0?: null, amount1?: null, to?: string | null): EventFilter;
+    Mint(sender?: string | null, amount0?: null, amount1?: null): EventFilter;
+    Swap(sender?: string | null, amount0In?: null, amount1In?: null, amount0Out?: null, amount1Out?: null, to?: string | null): EventFilter;
+    Sync(reserve0?: null, reserve1?: null): EventFilter;
+    Transfer(from?: string | null, to?: string | null, value?: null): EventFilter;
+  };
+}
+
+export function getMiniDexPair(address: string, signerOrProvider: Signer | providers.Provider): MiniDexPair {
+  return new Contract(address, miniDexPairAbi, signerOrProvider) as unknown as MiniDexPair;
+}
@@ -0,0 +1,143 @@
+// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.
+
+import { BaseContract, BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, PopulatedTransaction, Signer, providers } from "ethers";
+
+export const multicallAbi = [
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "target",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes",
+            "name": "callData",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct Multicall.Call[]",
+        "name": "calls",
+        "type": "tuple[]"
+      }
+    ],
+    "name": "aggregate",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "blockNumber",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes[]",
+        "name": "returnData",
+        "type": "bytes[]"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getBlockNumber",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "blockNumber",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bool",
+        "name": "requireSuccess",
+        "type": "bool"
+      },
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "target",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes",
+            "name": "callData",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct Multicall.Call[]",
+        "name": "calls",
+        "type": "tuple[]"
+      }
+    ],
+    "name": "tryAggregate",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "bool",
+            "name": "success",
+            "type": "bool"
+          },
+          {
+            "internalType": "bytes",
+            "name": "returnData",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct Multicall.Result[]",
+        "name": "returnData",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+export interface Multicall extends BaseContract {
+  connect(signerOrProvider: Signer | providers.Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  aggregate(calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<ContractTransaction>;
+  getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+  tryAggregate(requireSuccess: boolean, calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<ContractTransaction>;
+
+  functions: {
+    aggregate(calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<ContractTransaction>;
+    getBlockNumber(overrides?: CallOverrides): Promise<[BigNumber] & { blockNumber: BigNumber }>;
+    tryAggregate(requireSuccess: boolean, calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    aggregate(calls: { target: string; callData: BytesLike }[], overrides?: CallOverrides): Promise<[BigNumber, string[]] & { blockNumber: BigNumber; returnData: string[] }>;
+    getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+    tryAggregate(requireSuccess: boolean, calls: { target: string; callData: BytesLike }[], overrides?: CallOverrides): Promise<{ success: boolean; returnData: string }[]>;
+  };
+
+  estimateGas: {
+    aggregate(calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<BigNumber>;
+    getBlockNumber(overrides?: Overrides): Promise<BigNumber>;
+    tryAggregate(requireSuccess: boolean, calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    aggregate(calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<PopulatedTransaction>;
+    getBlockNumber(overrides?: Overrides): Promise<PopulatedTransaction>;
+    tryAggregate(requireSuccess: boolean, calls: { target: string; callData: BytesLike }[], overrides?: Overrides): Promise<PopulatedTransaction>;
+  };
+
+  filters: Record<string, never>;
+}
+
+export function getMulticall(address: string, signerOrProvider: Signer | providers.Provider): Multicall {
+  return new Contract(address, multicallAbi, signerOrProvider) as unknown as Multicall;
+}
@@ -0,0 +1,344 @@
+// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.
+
+import { BaseContract, BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, PopulatedTransaction, Signer, providers } from "ethers";
+
+export const simpleERC20Abi = [
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_name",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "_symbol",
+        "type": "string"
+      },
+      {
+        "internalType": "uint8",
+        "name": "_decimals",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_initialSupply",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "_creator",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Approval",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Transfer",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "allowance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "approve",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalSupply",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "transfer",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "transferFrom",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+export interface SimpleERC20ApprovalEventArgs {
+  owner: string;
+  spender: string;
+  value: BigNumber;
+}
+
+export interface SimpleERC20TransferEventArgs {
+  from: string;
+  to: string;
+  value: BigNumber;
+}
+
+export interface SimpleERC20 extends BaseContract {
+  connect(signerOrProvider: Signer | providers.Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  allowance(arg0: string, arg1: string, overrides?: CallOverrides): Promise<BigNumber>;
+  approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  balanceOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  name(overrides?: CallOverrides): Promise<string>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+
+  functions: {
+    allowance(arg0: string, arg1: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+    balanceOf(arg0: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    decimals(overrides?: CallOverrides): Promise<[number]>;
+    name(overrides?: CallOverrides): Promise<[string]>;
+    symbol(overrides?: CallOverrides): Promise<[string]>;
+    totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    allowance(arg0: string, arg1: string, overrides?: CallOverrides): Promise<BigNumber>;
+    approve(spender: string, value: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+    balanceOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<number>;
+    name(overrides?: CallOverrides): Promise<string>;
+    symbol(overrides?: CallOverrides): Promise<string>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transfer(to: string, value: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+  };
+
+  estimateGas: {
+    allowance(arg0: string, arg1: string, overrides?: Overrides): Promise<BigNumber>;
+    approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    balanceOf(arg0: string, overrides?: Overrides): Promise<BigNumber>;
+    decimals(overrides?: Overrides): Promise<BigNumber>;
+    name(overrides?: Overrides): Promise<BigNumber>;
+    symbol(overrides?: Overrides): Promise<BigNumber>;
+    totalSupply(overrides?: Overrides): Promise<BigNumber>;
+    transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    allowance(arg0: string, arg1: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    approve(spender: string, value: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    balanceOf(arg0: string, overrides?: Overrides): Promise<PopulatedTransaction>;
+    decimals(overrides?: Overrides): Promise<PopulatedTransaction>;
+    name(overrides?: Overrides): Promise<PopulatedTransaction>;
+    symbol(overrides?: Overrides): Promise<PopulatedTransaction>;
+    totalSupply(overrides?: Overrides): Promise<PopulatedTransaction>;
+    transfer(to: string, value: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    transferFrom(from: string, to: string, value: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+  };
+
+  filters: {
+    Approval(owner?: string | null, spender?: string | null, value?: null): EventFilter;
+    Transfer(from?: string | null, to?: string | null, value?: null): EventFilter;
+  };
+}
+
+export function getSimpleERC20(address: string, signerOrProvider: Signer | providers.Provider): SimpleERC20 {
+  return new Contract(address, simpleERC20Abi, signerOrProvider) as unknown as SimpleERC20;
+}
@@ -0,0 +1,152 @@
+// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.
+
+import { BaseContract, BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, PopulatedTransaction, Signer, providers } from "ethers";
+
+export const tokenFactoryAbi = [
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "tokenAddress",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "name",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "symbol",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "creator",
+        "type": "address"
+      }
+    ],
+    "name": "TokenCreated",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "name",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "symbol",
+        "type": "string"
+      },
+      {
+        "internalType": "uint8",
+        "name": "decimals",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "initialSupply",
+        "type": "uint256"
+      }
+    ],
+    "name": "createToken",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "tokenAddress",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "deployedTokens",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getDeployedTokens",
+    "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "",
+        "type": "address[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+export interface TokenFactoryTokenCreatedEventArgs {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  creator: string;
+}
+
+export interface TokenFactory extends BaseContract {
+  connect(signerOrProvider: Signer | providers.Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  createToken(name: string, symbol: string, decimals: BigNumberish, initialSupply: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  deployedTokens(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  getDeployedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+  functions: {
+    createToken(name: string, symbol: string, decimals: BigNumberish, initialSupply: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+    deployedTokens(arg0: BigNumberish, overrides?: CallOverrides): Promise<[string]>;
+    getDeployedTokens(overrides?: CallOverrides): Promise<[string[]]>;
+  };
+
+  callStatic: {
+    createToken(name: string, symbol: string, decimals: BigNumberish, initialSupply: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    deployedTokens(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    getDeployedTokens(overrides?: CallOverrides): Promise<string[]>;
+  };
+
+  estimateGas: {
+    createToken(name: string, symbol: string, decimals: BigNumberish, initialSupply: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    deployedTokens(arg0: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+    getDeployedTokens(overrides?: Overrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    createToken(name: string, symbol: string, decimals: BigNumberish, initialSupply: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    deployedTokens(arg0: BigNumberish, overrides?: Overrides): Promise<PopulatedTransaction>;
+    getDeployedTokens(overrides?: Overrides): Promise<PopulatedTransaction>;
+  };
+
+  filters: {
+    TokenCreated(tokenAddress?: string | null, name?: null, symbol?: null, creator?: null): EventFilter;
+  };
+}
+
+export function getTokenFactory(address: string, signerOrProvider: Signer | providers.Provider): TokenFactory {
+  return new Contract(address, tokenFactoryAbi, signerOrProvider) as unknown as TokenFactory;
+}
@@ -0,0 +1,8 @@
+// Generated by scripts/generate-contract-bindings.mjs from the Foundry artifacts. Do not edit.
+
+export * from "./MiniDexFactory";
+export * from "./MiniDexPair";
+export * from "./Router";
+export * from "./TokenFactory";
+export * from "./SimpleERC20";
+export * from "./Multicall";
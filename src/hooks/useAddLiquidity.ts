@@ -1,10 +1,20 @@
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { ethers } from "ethers";
 import { toast } from "sonner";
-import { ROUTER_ADDRESS } from "@/constants/addresses";
-import ROUTER_ABI from "@/constants/abis/router.json";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { getMiniDexFactory, getMiniDexPair, getRouter, getSimpleERC20 } from "@/contracts";
+import { Deployment } from "@/constants/deployments";
+import { useInvalidatePools } from "@/hooks/usePools";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useTransaction } from "@/hooks/useTransaction";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
+import { useTokenApproval } from "@/hooks/useTokenApproval";
+import { hasAllowance } from "@/lib/approvals";
+import { LP_TOKEN_DECIMALS, quoteAddLiquidityAmounts } from "@/lib/liquidity";
+import { Simulation, simulateTransaction } from "@/lib/simulation";
+import { applySlippage } from "@/lib/transactionSettings";
+import { TokenAmount, formatTokenAmount, parseTokenAmount, tokenAmount } from "@/lib/tokenAmount";
+import { getErrorMessage } from "@/lib/errors";
 
 interface AddLiquidityParams {
   tokenA: string;
@@ -13,56 +23,153 @@ interface AddLiquidityParams {
   amountB: string;
   tokenASymbol: string;
   tokenBSymbol: string;
-  provider: ethers.providers.Web3Provider | null;
+  provider: ethers.providers.JsonRpcProvider | null;
   signer: ethers.Signer | null;
   account: string | null;
 }
 
+export interface AddLiquidityResult {
+  amountA: TokenAmount;
+  amountB: TokenAmount;
+  liquidity: TokenAmount; // LP tokens minted
+}
+
+// Desired amounts, the amounts the Router will actually use, and the slippage-protected addLiquidity arguments
+async function prepareAddLiquidity(
+  deployment: Deployment,
+  { tokenA, tokenB, amountA, amountB, tokenASymbol, tokenBSymbol, signer, account }: AddLiquidityParams,
+  slippage: number,
+  deadline: number
+) {
+  if (!signer || !account) throw new Error("Please connect your wallet first");
+
+  const tokenAContract = getSimpleERC20(tokenA, signer);
+  const tokenBContract = getSimpleERC20(tokenB, signer);
+
+  // Get decimals
+  const [decimalsA, decimalsB] = await Promise.all([
+    tokenAContract.decimals(),
+    tokenBContract.decimals()
+  ]);
+
+  const amountADesired = parseTokenAmount({ address: tokenA, symbol: tokenASymbol, decimals: decimalsA }, amountA);
+  const amountBDesired = parseTokenAmount({ address: tokenB, symbol: tokenBSymbol, decimals: decimalsB }, amountB);
+
+  if (!amountADesired || amountADesired.raw.isZero() || !amountBDesired || amountBDesired.raw.isZero()) {
+    throw new Error("Please enter valid amounts for both tokens");
+  }
+
+  // Work out the amounts the Router will actually use so the minimums only cover price movement
+  const factory = getMiniDexFactory(deployment.factory, signer);
+
+  let reserveA = ethers.BigNumber.from(0);
+  let reserveB = ethers.BigNumber.from(0);
+  const pairAddress = await factory.getPair(tokenA, tokenB);
+
+  if (pairAddress !== ethers.constants.AddressZero) {
+    const pair = getMiniDexPair(pairAddress, signer);
+    const [token0, reserves] = await Promise.all([
+      pair.token0(),
+      pair.getReserves()
+    ]);
+    [reserveA, reserveB] = token0.toLowerCase() === tokenA.toLowerCase()
+      ? [reserves[0], reserves[1]]
+      : [reserves[1], reserves[0]];
+  }
+
+  const [amountAExpected, amountBExpected] = quoteAddLiquidityAmounts(
+    amountADesired,
+    amountBDesired,
+    reserveA,
+    reserveB
+  );
+  const amountAMin = applySlippage(amountAExpected, slippage);
+  const amountBMin = applySlippage(amountBExpected, slippage);
+
+  return {
+    tokenAContract,
+    tokenBContract,
+    amountADesired,
+    amountBDesired,
+    amountAExpected,
+    amountBExpected,
+    args: [
+      tokenA,
+      tokenB,
+      amountADesired.raw,
+      amountBDesired.raw,
+      amountAMin.raw,
+      amountBMin.raw,
+      account,
+      deadline
+    ] as const
+  };
+}
+
 export function useAddLiquidity() {
   const [isAdding, setIsAdding] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { slippage, getDeadline } = useTransactionSettings();
+  const { deployment } = useDeployment();
+  const invalidatePools = useInvalidatePools();
+  const { approveIfNeeded } = useTokenApproval();
+  const { sendTransaction } = useTransaction();
+
+  // Dry run for the preview; resolves to null until both tokens are approved
+  const simulateAddLiquidity = useCallback(async (
+    params: AddLiquidityParams
+  ): Promise<Simulation<AddLiquidityResult> | null> => {
+    if (!deployment || !params.signer || !params.account) return null;
+
+    const prepared = await prepareAddLiquidity(deployment, params, slippage, getDeadline());
+    const [approvedA, approvedB] = await Promise.all([
+      hasAllowance(prepared.tokenAContract, params.account, deployment.router, prepared.amountADesired.raw),
+      hasAllowance(prepared.tokenBContract, params.account, deployment.router, prepared.amountBDesired.raw)
+    ]);
+    if (!approvedA || !approvedB) return null;
+
+    const router = getRouter(deployment.router, params.signer);
+    const simulation = await simulateTransaction(router, "addLiquidity", ...prepared.args);
+
+    return {
+      ...simulation,
+      result: {
+        amountA: tokenAmount(prepared.amountADesired.token, simulation.result.amountA),
+        amountB: tokenAmount(prepared.amountBDesired.token, simulation.result.amountB),
+        liquidity: tokenAmount(
+          { address: ethers.constants.AddressZero, symbol: "LP", decimals: LP_TOKEN_DECIMALS },
+          simulation.result.liquidity
+        )
+      }
+    };
+  }, [deployment, slippage, getDeadline]);
   
-  const addLiquidity = async ({
-    tokenA,
-    tokenB,
-    amountA,
-    amountB,
-    tokenASymbol,
-    tokenBSymbol,
-    provider,
-    signer,
-    account
-  }: AddLiquidityParams) => {
+  const addLiquidity = async (params: AddLiquidityParams) => {
+    const { tokenA, tokenB, tokenASymbol, tokenBSymbol, signer, account } = params;
+
     if (!signer || !account) {
       toast.error("Please connect your wallet first");
       return false;
     }
 
+    if (!deployment) {
+      toast.error("MiniDex is not deployed on this network");
+      return false;
+    }
+
     try {
       setIsAdding(true);
       setError(null);
       
-      // First approve tokens
-      const tokenAContract = new ethers.Contract(
-        tokenA,
-        ERC20_ABI,
-        signer
-      );
-
-      const tokenBContract = new ethers.Contract(
-        tokenB,
-        ERC20_ABI,
-        signer
-      );
-
-      // Get decimals
-      const [decimalsA, decimalsB] = await Promise.all([
-        tokenAContract.decimals(),
-        tokenBContract.decimals()
-      ]);
-
-      const amountAWei = ethers.utils.parseUnits(amountA, decimalsA);
-      const amountBWei = ethers.utils.parseUnits(amountB, decimalsB);
+      const {
+        tokenAContract,
+        tokenBContract,
+        amountADesired,
+        amountBDesired,
+        amountAExpected,
+        amountBExpected,
+        args
+      } = await prepareAddLiquidity(deployment, params, slippage, getDeadline());
 
       // Check balances
       const [balanceA, balanceB] = await Promise.all([
@@ -70,54 +177,45 @@ export function useAddLiquidity() {
         tokenBContract.balanceOf(account)
       ]);
 
-      if (balanceA.lt(amountAWei)) {
+      if (balanceA.lt(amountADesired.raw)) {
         throw new Error(`Insufficient ${tokenASymbol} balance`);
       }
 
-      if (balanceB.lt(amountBWei)) {
+      if (balanceB.lt(amountBDesired.raw)) {
         throw new Error(`Insufficient ${tokenBSymbol} balance`);
       }
 
-      toast.info(`Approving ${tokenASymbol}...`);
-      const approvalA = await tokenAContract.approve(ROUTER_ADDRESS, amountAWei);
-      await approvalA.wait();
-      
-      toast.info(`Approving ${tokenBSymbol}...`);
-      const approvalB = await tokenBContract.approve(ROUTER_ADDRESS, amountBWei);
-      await approvalB.wait();
-
-      // Now add liquidity
-      const router = new ethers.Contract(
-        ROUTER_ADDRESS,
-        ROUTER_ABI,
-        signer
-      );
+      // Only tokens whose allowance doesn't cover the desired amount need an approval
+      await approveIfNeeded({
+        tokenAddress: tokenA,
+        symbol: tokenASymbol,
+        amount: amountADesired.raw,
+        signer,
+        account
+      });
+      await approveIfNeeded({
+        tokenAddress: tokenB,
+        symbol: tokenBSymbol,
+        amount: amountBDesired.raw,
+        signer,
+        account
+      });
 
-      toast.info(`Adding ${tokenASymbol}/${tokenBSymbol} liquidity...`);
-      const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes
+      // Now add liquidity, after a dry run so a revert is caught before the wallet prompt
+      const router = getRouter(deployment.router, signer);
+      const simulation = await simulateTransaction(router, "addLiquidity", ...args);
       
-      const tx = await router.addLiquidity(
-        tokenA,
-        tokenB,
-        amountAWei,
-        amountBWei,
-        0, // amountAMin (0 for simplicity)
-        0, // amountBMin (0 for simplicity)
-        account,
-        deadline
+      await sendTransaction(
+        "addLiquidity",
+        `Add ${formatTokenAmount(amountAExpected)} ${tokenASymbol} and ${formatTokenAmount(amountBExpected)} ${tokenBSymbol} liquidity`,
+        () => router.addLiquidity(...args, { gasLimit: simulation.gasLimit })
       );
       
-      const receipt = await tx.wait();
-      
-      if (receipt.status === 1) {
-        toast.success(`${tokenASymbol}/${tokenBSymbol} liquidity added successfully!`);
-        return true;
-      } else {
-        throw new Error("Failed to add liquidity");
-      }
-    } catch (error: any) {
+      invalidatePools();
+      return true;
+    } catch (error) {
       console.error("Error adding liquidity:", error);
-      const errorMessage = error.message || "Failed to add liquidity";
+      const errorMessage = getErrorMessage(error, "Failed to add liquidity");
       toast.error(errorMessage);
       setError(errorMessage);
       return false;
@@ -126,5 +224,5 @@ export function useAddLiquidity() {
     }
   };
 
-  return { addLiquidity, isAdding, error };
+  return { addLiquidity, simulateAddLiquidity, isAdding, error };
 }
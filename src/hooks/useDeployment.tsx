@@ -0,0 +1,69 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { Deployment } from "@/constants/deployments";
+import { getNetworkConfig } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+
+// "disconnected" until a chain is known; "not-deployed" when the chain isn't a supported network or has no code at an address
+export type DeploymentStatus = "disconnected" | "checking" | "ready" | "not-deployed";
+
+interface DeploymentState {
+  deployment: Deployment | null;
+  status: DeploymentStatus;
+}
+
+const DeploymentContext = createContext<DeploymentState>({
+  deployment: null,
+  status: "disconnected",
+});
+
+export const DeploymentProvider = ({ children }: { children: ReactNode }) => {
+  const { provider, chainId } = useWeb3Provider();
+  const [state, setState] = useState<DeploymentState>({ deployment: null, status: "disconnected" });
+
+  useEffect(() => {
+    if (!provider || !chainId) {
+      setState({ deployment: null, status: "disconnected" });
+      return;
+    }
+
+    const deployment = getNetworkConfig(chainId)?.contracts;
+    if (!deployment) {
+      setState({ deployment: null, status: "not-deployed" });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ deployment: null, status: "checking" });
+
+    // A stale broadcast file (e.g. after restarting anvil) lists addresses with no code behind them
+    const checkCode = async () => {
+      try {
+        const codes = await Promise.all(
+          [deployment.factory, deployment.router, deployment.tokenFactory].map(address => provider.getCode(address))
+        );
+        if (cancelled) return;
+
+        setState(codes.every(code => code !== "0x")
+          ? { deployment, status: "ready" }
+          : { deployment: null, status: "not-deployed" });
+      } catch (error) {
+        console.error("Error checking protocol deployment:", error);
+        if (!cancelled) setState({ deployment: null, status: "not-deployed" });
+      }
+    };
+
+    checkCode();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, chainId]);
+
+  return (
+    <DeploymentContext.Provider value={state}>
+      {children}
+    </DeploymentContext.Provider>
+  );
+};
+
+export const useDeployment = () => useContext(DeploymentContext);
@@ -0,0 +1,45 @@
+import { ethers } from "ethers";
+import { useQuery } from "@tanstack/react-query";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { getDevAccounts } from "@/lib/devWallet";
+
+export interface DevAccount {
+  index: number;
+  address: string;
+  balance: ethers.BigNumber; // ETH, in wei
+}
+
+async function fetchDevAccounts(provider: ethers.providers.Provider): Promise<DevAccount[]> {
+  return Promise.all(
+    getDevAccounts().map(async (address, index) => ({
+      index,
+      address,
+      balance: await provider.getBalance(address),
+    }))
+  );
+}
+
+// Anvil's prefunded accounts with their ETH balances, for the dev wallet account switcher
+export function useDevAccounts() {
+  const { provider, chainId, isDevWalletAvailable } = useWeb3Provider();
+
+  const query = useQuery({
+    queryKey: ["devAccounts", chainId],
+    queryFn: async () => {
+      try {
+        return await fetchDevAccounts(provider!);
+      } catch (error) {
+        console.error("Error loading dev accounts:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && isDevWalletAvailable,
+  });
+
+  return {
+    accounts: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error ? "Failed to load dev accounts" : null,
+    refetch: query.refetch,
+  };
+}
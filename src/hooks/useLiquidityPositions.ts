@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { getMiniDexPair } from "@/contracts";
+import { Pool } from "@/hooks/usePools";
+import { LP_TOKEN_DECIMALS } from "@/lib/liquidity";
+import { multicall } from "@/lib/multicall";
+import { TokenAmount, tokenAmount } from "@/lib/tokenAmount";
+
+export interface LiquidityPosition {
+  pool: Pool;
+  lpBalance: TokenAmount;
+  totalSupply: ethers.BigNumber;
+  reserve0: TokenAmount;
+  reserve1: TokenAmount;
+  share: number; // Percentage of the pool owned by the account
+}
+
+export function useLiquidityPositions(
+  pools: Pool[],
+  provider: ethers.providers.JsonRpcProvider | null,
+  account: string | null
+) {
+  const [positions, setPositions] = useState<LiquidityPosition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const refresh = useCallback(() => setRefreshIndex(index => index + 1), []);
+
+  useEffect(() => {
+    // A Sync hands out a new pool list mid-load; only the latest load may write its result
+    let cancelled = false;
+
+    const loadPositions = async () => {
+      if (!provider || !account) {
+        setPositions([]);
+        // A cancelled load may have left this set
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // Every pool is queried in parallel so the multicall layer batches the reads
+        const results = await Promise.all(pools.map(async (pool): Promise<LiquidityPosition | null> => {
+          try {
+            const pair = getMiniDexPair(pool.pairAddress, provider);
+
+            const [lpBalance, totalSupply, reserves] = await Promise.all([
+              multicall(pair, "balanceOf", account),
+              multicall(pair, "totalSupply"),
+              multicall(pair, "getReserves")
+            ]);
+            if (lpBalance.isZero()) return null;
+
+            // Share in basis points keeps the division in BigNumber space
+            const shareBps = totalSupply.isZero() ? 0 : lpBalance.mul(10000).div(totalSupply).toNumber();
+
+            return {
+              pool,
+              lpBalance: tokenAmount(
+                { address: pool.pairAddress, symbol: "MDLP", decimals: LP_TOKEN_DECIMALS },
+                lpBalance
+              ),
+              totalSupply,
+              reserve0: tokenAmount(
+                { address: pool.token0Address, symbol: pool.token0Symbol, decimals: pool.token0Decimals },
+                reserves[0]
+              ),
+              reserve1: tokenAmount(
+                { address: pool.token1Address, symbol: pool.token1Symbol, decimals: pool.token1Decimals },
+                reserves[1]
+              ),
+              share: shareBps / 100
+            };
+          } catch (pairError) {
+            console.error(`Error loading LP position for ${pool.pairAddress}:`, pairError);
+            // Continue with next pair instead of failing the entire operation
+            return null;
+          }
+        }));
+
+        if (cancelled) return;
+        const positionList = results.filter((position): position is LiquidityPosition => position !== null);
+
+        setPositions(positionList);
+      } catch (error) {
+        console.error("Error loading liquidity positions:", error);
+        if (!cancelled) setError("Failed to load liquidity positions");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadPositions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pools, provider, account, refreshIndex]);
+
+  return { positions, isLoading, error, refresh };
+}
@@ -0,0 +1,63 @@
+import { useEffect } from "react";
+import { ethers } from "ethers";
+import { useQueryClient } from "@tanstack/react-query";
+import { Pool, poolsQueryKey, updatePoolReserves } from "@/hooks/usePools";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { subscribePoolEvents } from "@/lib/poolEvents";
+
+// A burst of Syncs, e.g. every hop of a routed swap, is folded into one indexer scan
+const INDEXER_REFRESH_DELAY_MS = 5_000;
+
+// Keeps the shared pool registry in sync with the chain; mount once per page
+export function useLivePoolUpdates(provider: ethers.providers.JsonRpcProvider | null) {
+  const { chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!provider || !deployment) return;
+
+    const queryKey = poolsQueryKey(chainId, deployment.factory);
+    let indexerRefresh: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = subscribePoolEvents(provider, deployment.factory, {
+      // Patching the cache hands every consumer a new pool list, which re-runs their quotes
+      onSync: (pairAddress, reserve0, reserve1) => {
+        const pools = queryClient.setQueryData<Pool[]>(queryKey, pools =>
+          pools && updatePoolReserves(pools, pairAddress, reserve0, reserve1)
+        );
+
+        // Per-pair lookups also carry the LP supply, which a Sync doesn't include. They are keyed
+        // by pair address (details, history) or by token pair in either order (reserves)
+        const pair = pairAddress.toLowerCase();
+        const pool = pools?.find(pool => pool.pairAddress.toLowerCase() === pair);
+        const tokens = pool ? [pool.token0Address.toLowerCase(), pool.token1Address.toLowerCase()] : [];
+        queryClient.invalidateQueries({
+          queryKey: [...queryKey, "pair"],
+          predicate: ({ queryKey: key }) => {
+            const [first, second] = key.slice(queryKey.length + 1);
+            return first === pair || (tokens.includes(first as string) && tokens.includes(second as string));
+          }
+        });
+
+        // Every Swap, Mint and Burn ends in a Sync, so this also picks up new events for the pool stats
+        if (!indexerRefresh) {
+          indexerRefresh = setTimeout(() => {
+            indexerRefresh = null;
+            queryClient.invalidateQueries({ queryKey: [...queryKey, "indexer"] });
+          }, INDEXER_REFRESH_DELAY_MS);
+        }
+      },
+      // New pairs need their token metadata loaded, so refetch the list
+      onPairCreated: () => {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    });
+
+    return () => {
+      if (indexerRefresh) clearTimeout(indexerRefresh);
+      unsubscribe();
+    };
+  }, [provider, chainId, deployment, queryClient]);
+}
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { poolsQueryKey } from "@/hooks/usePools";
+import { PoolDetails } from "@/hooks/usePoolDetails";
+import { loadCachedHistory, saveCachedHistory } from "@/lib/historyCache";
+import { PairHistory, updatePairHistory } from "@/lib/pairHistory";
+
+// Reserve and volume history of a pair; the IndexedDB cache means only blocks since the last visit are scanned
+export function usePairHistory(pool: PoolDetails | null) {
+  const { provider, chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+  const pairAddress = pool?.pairAddress.toLowerCase();
+
+  const query = useQuery({
+    // Under the pair's pools key, so each Sync triggers an incremental scan
+    queryKey: [...poolsQueryKey(chainId, deployment?.factory), "pair", pairAddress, "history"],
+    queryFn: async () => {
+      try {
+        const cacheKey = `${chainId}:${pairAddress}`;
+        const cached = await loadCachedHistory<PairHistory>("pairHistory", cacheKey);
+        const history = await updatePairHistory(provider!, deployment!.factory, {
+          pairAddress: pool!.pairAddress,
+          token0: pool!.token0.address,
+          token1: pool!.token1.address
+        }, cached, deployment!.deploymentBlock);
+
+        await saveCachedHistory("pairHistory", cacheKey, history);
+        return history;
+      } catch (error) {
+        console.error("Error loading pair history:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && !!deployment && !!pool,
+  });
+
+  return {
+    history: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error ? "Failed to load pool history" : null,
+  };
+}
@@ -0,0 +1,72 @@
+import { ethers } from "ethers";
+import { useQuery } from "@tanstack/react-query";
+import { getMiniDexFactory, getMiniDexPair } from "@/contracts";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { poolsQueryKey } from "@/hooks/usePools";
+import { multicall } from "@/lib/multicall";
+
+// Reserves in the caller's A/B order rather than the pair's token0/token1 order
+export interface PairReserves {
+  pairAddress: string | null; // null until the pair is created
+  reserveA: ethers.BigNumber;
+  reserveB: ethers.BigNumber;
+  totalSupply: ethers.BigNumber;
+}
+
+const EMPTY_PAIR: Omit<PairReserves, "pairAddress"> = {
+  reserveA: ethers.BigNumber.from(0),
+  reserveB: ethers.BigNumber.from(0),
+  totalSupply: ethers.BigNumber.from(0),
+};
+
+async function fetchPairReserves(
+  provider: ethers.providers.Provider,
+  factoryAddress: string,
+  tokenA: string,
+  tokenB: string
+): Promise<PairReserves> {
+  const pairAddress = await multicall(getMiniDexFactory(factoryAddress, provider), "getPair", tokenA, tokenB);
+  if (pairAddress === ethers.constants.AddressZero) return { pairAddress: null, ...EMPTY_PAIR };
+
+  const pair = getMiniDexPair(pairAddress, provider);
+  const [token0, reserves, totalSupply] = await Promise.all([
+    multicall(pair, "token0"),
+    multicall(pair, "getReserves"),
+    multicall(pair, "totalSupply")
+  ]);
+
+  const [reserveA, reserveB] = token0.toLowerCase() === tokenA.toLowerCase()
+    ? [reserves[0], reserves[1]]
+    : [reserves[1], reserves[0]];
+
+  return { pairAddress, reserveA, reserveB, totalSupply };
+}
+
+export function usePairReserves(tokenA: string, tokenB: string) {
+  const { provider, chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+
+  const isValid = ethers.utils.isAddress(tokenA) && ethers.utils.isAddress(tokenB) &&
+    tokenA.toLowerCase() !== tokenB.toLowerCase();
+
+  const query = useQuery({
+    // Nested under the pools key so invalidating pools after a write refreshes it too
+    queryKey: [...poolsQueryKey(chainId, deployment?.factory), "pair", tokenA.toLowerCase(), tokenB.toLowerCase()],
+    queryFn: async () => {
+      try {
+        return await fetchPairReserves(provider!, deployment!.factory, tokenA, tokenB);
+      } catch (error) {
+        console.error("Error loading pair reserves:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && !!deployment && isValid,
+  });
+
+  return {
+    pair: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error ? "Failed to load pool reserves" : null,
+  };
+}
@@ -0,0 +1,130 @@
+import { ethers } from "ethers";
+import { useQuery } from "@tanstack/react-query";
+import { getMiniDexPair, getSimpleERC20 } from "@/contracts";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { poolsQueryKey } from "@/hooks/usePools";
+import { LP_TOKEN_DECIMALS } from "@/lib/liquidity";
+import { multicall } from "@/lib/multicall";
+import { PairActivity, fetchPairActivity } from "@/lib/poolEvents";
+import { Token, TokenAmount, tokenAmount } from "@/lib/tokenAmount";
+
+export interface PoolToken extends Token {
+  name: string;
+}
+
+export interface PoolDetails {
+  pairAddress: string;
+  token0: PoolToken;
+  token1: PoolToken;
+  reserve0: TokenAmount;
+  reserve1: TokenAmount;
+  totalSupply: TokenAmount;
+  blockTimestampLast: number; // Unix seconds of the last reserve update
+}
+
+export interface PoolActivityEntry extends PairActivity {
+  timestamp: number | null; // Unix seconds; null if the block couldn't be fetched
+}
+
+async function fetchPoolToken(provider: ethers.providers.Provider, address: string): Promise<PoolToken> {
+  const token = getSimpleERC20(address, provider);
+  const [symbol, name, decimals] = await Promise.all([
+    multicall(token, "symbol"),
+    multicall(token, "name"),
+    multicall(token, "decimals")
+  ]);
+  return { address, symbol, name, decimals };
+}
+
+async function fetchPoolDetails(provider: ethers.providers.Provider, pairAddress: string): Promise<PoolDetails> {
+  const pair = getMiniDexPair(pairAddress, provider);
+  const [token0Address, token1Address, reserves, totalSupply] = await Promise.all([
+    multicall(pair, "token0"),
+    multicall(pair, "token1"),
+    multicall(pair, "getReserves"),
+    multicall(pair, "totalSupply")
+  ]);
+
+  const [token0, token1] = await Promise.all([
+    fetchPoolToken(provider, token0Address),
+    fetchPoolToken(provider, token1Address)
+  ]);
+
+  return {
+    pairAddress,
+    token0,
+    token1,
+    reserve0: tokenAmount(token0, reserves[0]),
+    reserve1: tokenAmount(token1, reserves[1]),
+    totalSupply: tokenAmount({ address: pairAddress, symbol: "MDLP", decimals: LP_TOKEN_DECIMALS }, totalSupply),
+    blockTimestampLast: reserves[2]
+  };
+}
+
+async function fetchPoolActivity(
+  provider: ethers.providers.Provider,
+  pairAddress: string,
+  limit: number
+): Promise<PoolActivityEntry[]> {
+  const activity = await fetchPairActivity(provider, pairAddress, limit);
+
+  // Several events often share a block, so each block is only fetched once
+  const blockNumbers = Array.from(new Set(activity.map(entry => entry.blockNumber)));
+  const timestamps = new Map<number, number>();
+  await Promise.all(blockNumbers.map(async (blockNumber) => {
+    try {
+      timestamps.set(blockNumber, (await provider.getBlock(blockNumber)).timestamp);
+    } catch (blockError) {
+      console.error(`Error loading block ${blockNumber}:`, blockError);
+    }
+  }));
+
+  return activity.map(entry => ({ ...entry, timestamp: timestamps.get(entry.blockNumber) ?? null }));
+}
+
+// Both queries sit under the pair's pools key, so live Sync updates and writes refresh them
+const poolQueryKey = (chainId: number | null, factoryAddress: string | undefined, pairAddress: string) =>
+  [...poolsQueryKey(chainId, factoryAddress), "pair", pairAddress.toLowerCase()] as const;
+
+export function usePoolDetails(pairAddress: string, activityLimit: number) {
+  const { provider, chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+  const isValid = ethers.utils.isAddress(pairAddress);
+
+  const details = useQuery({
+    queryKey: [...poolQueryKey(chainId, deployment?.factory, pairAddress), "details"],
+    queryFn: async () => {
+      try {
+        return await fetchPoolDetails(provider!, pairAddress);
+      } catch (error) {
+        console.error("Error loading pool details:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && !!deployment && isValid,
+  });
+
+  const activity = useQuery({
+    queryKey: [...poolQueryKey(chainId, deployment?.factory, pairAddress), "activity", activityLimit],
+    queryFn: async () => {
+      try {
+        return await fetchPoolActivity(provider!, pairAddress, activityLimit);
+      } catch (error) {
+        console.error("Error loading pool activity:", error);
+        throw error;
+      }
+    },
+    // Only worth scanning logs once the address is known to be a pair
+    enabled: !!provider && !!details.data,
+  });
+
+  return {
+    pool: details.data ?? null,
+    isLoading: details.isLoading,
+    error: !isValid ? "Not a valid pool address" : details.error ? "Failed to load pool" : null,
+    activity: activity.data ?? [],
+    activityLoading: activity.isLoading,
+    activityError: activity.error ? "Failed to load recent activity" : null,
+  };
+}
@@ -0,0 +1,48 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { Pool, poolsQueryKey } from "@/hooks/usePools";
+import { loadCachedHistory, saveCachedHistory } from "@/lib/historyCache";
+import { IndexerStore, STATS_WINDOWS, StatsWindow, getPoolStats, updateIndexerStore } from "@/lib/indexer";
+import { getMostConnectedToken, getSpotPrices } from "@/lib/portfolio";
+
+// Rolling volume, fees, APR and traders per pool, from the factory-wide event index kept in IndexedDB
+export function usePoolStats(pools: Pool[], statsWindow: StatsWindow) {
+  const { provider, chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+
+  const query = useQuery({
+    // Under the pools key: new pairs and writes refresh it, and live Syncs invalidate it explicitly
+    queryKey: [...poolsQueryKey(chainId, deployment?.factory), "indexer"],
+    queryFn: async () => {
+      try {
+        const cacheKey = `${chainId}:${deployment!.factory.toLowerCase()}`;
+        const cached = await loadCachedHistory<IndexerStore>("indexer", cacheKey);
+        const store = await updateIndexerStore(provider!, deployment!.factory, cached, deployment!.deploymentBlock);
+
+        await saveCachedHistory("indexer", cacheKey, store);
+        return store;
+      } catch (error) {
+        console.error("Error indexing pool events:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && !!deployment,
+  });
+
+  const quoteToken = useMemo(() => getMostConnectedToken(pools), [pools]);
+
+  const stats = useMemo(() => {
+    if (!query.data || !quoteToken) return null;
+    const prices = getSpotPrices(pools, quoteToken.address);
+    return getPoolStats(query.data, pools, prices, STATS_WINDOWS[statsWindow].seconds);
+  }, [query.data, pools, quoteToken, statsWindow]);
+
+  return {
+    stats,
+    quoteToken,
+    isLoading: query.isLoading,
+    error: query.error ? "Failed to index pool events" : null,
+  };
+}
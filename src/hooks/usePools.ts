@@ -1,10 +1,10 @@
-
-import { useState, useEffect } from "react";
+import { useCallback } from "react";
 import { ethers } from "ethers";
-import { FACTORY_ADDRESS } from "@/constants/addresses";
-import FACTORY_ABI from "@/constants/abis/factory.json";
-import PAIR_ABI from "@/constants/abis/pair.json";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getMiniDexFactory, getMiniDexPair, getSimpleERC20 } from "@/contracts";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { multicall } from "@/lib/multicall";
 
 export interface Pool {
   pairAddress: string;
@@ -15,104 +15,171 @@ export interface Pool {
   token0Decimals: number;
   token1Decimals: number;
   reserves: [string, string];
-  liquidity: number; // For sorting
+  reservesRaw: [ethers.BigNumber, ethers.BigNumber];
+}
+
+// Stable reference while the first load is in flight, so effects depending on `pools` don't loop
+const NO_POOLS: Pool[] = [];
+
+// Every consumer of the same chain and factory shares one cache entry
+export const poolsQueryKey = (chainId: number | null, factoryAddress: string | undefined) =>
+  ["pools", chainId, factoryAddress?.toLowerCase()] as const;
+
+interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+async function fetchPools(provider: ethers.providers.Provider, factoryAddress: string): Promise<Pool[]> {
+  const factory = getMiniDexFactory(factoryAddress, provider);
+
+  const pairCount: ethers.BigNumber = await multicall(factory, "allPairsLength");
+
+  // Each stage below is issued in parallel, so the multicall layer sends it as one batch
+  const pairAddresses: string[] = await Promise.all(
+    Array.from({ length: pairCount.toNumber() }, (_, i) => multicall(factory, "allPairs", i))
+  );
+
+  const pairs = await Promise.all(
+    pairAddresses.map(async (pairAddress) => {
+      try {
+        const pair = getMiniDexPair(pairAddress, provider);
+
+        const [token0Address, token1Address, reserves] = await Promise.all([
+          multicall(pair, "token0"),
+          multicall(pair, "token1"),
+          multicall(pair, "getReserves")
+        ]);
+
+        return { pairAddress, token0Address, token1Address, reserves };
+      } catch (pairError) {
+        console.error(`Error processing pair ${pairAddress}:`, pairError);
+        // Continue with next pair instead of failing the entire operation
+        return null;
+      }
+    })
+  );
+
+  // Tokens shared by several pairs are only looked up once
+  const tokenAddresses = new Set<string>();
+  for (const pair of pairs) {
+    if (!pair) continue;
+    tokenAddresses.add(pair.token0Address);
+    tokenAddresses.add(pair.token1Address);
+  }
+
+  const tokens = new Map<string, TokenMetadata | null>();
+  await Promise.all(
+    Array.from(tokenAddresses).map(async (address) => {
+      try {
+        const token = getSimpleERC20(address, provider);
+        const [symbol, decimals] = await Promise.all([
+          multicall(token, "symbol"),
+          multicall(token, "decimals")
+        ]);
+        tokens.set(address, { symbol, decimals });
+      } catch (tokenError) {
+        console.error(`Error loading token ${address}:`, tokenError);
+        tokens.set(address, null);
+      }
+    })
+  );
+
+  const poolList: Pool[] = [];
+
+  for (const pair of pairs) {
+    if (!pair) continue;
+
+    const token0 = tokens.get(pair.token0Address);
+    const token1 = tokens.get(pair.token1Address);
+    if (!token0 || !token1) continue;
+
+    const { pairAddress, token0Address, token1Address, reserves } = pair;
+
+    poolList.push(withReserves(
+      {
+        pairAddress,
+        token0Address,
+        token1Address,
+        token0Symbol: token0.symbol,
+        token1Symbol: token1.symbol,
+        token0Decimals: token0.decimals,
+        token1Decimals: token1.decimals
+      },
+      reserves[0],
+      reserves[1]
+    ));
+  }
+
+  return poolList;
 }
 
-export function usePools(provider: ethers.providers.Web3Provider | null) {
-  const [pools, setPools] = useState<Pool[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+function withReserves(
+  pool: Omit<Pool, "reserves" | "reservesRaw">,
+  reserve0: ethers.BigNumber,
+  reserve1: ethers.BigNumber
+): Pool {
+  const reserves: [string, string] = [
+    ethers.utils.formatUnits(reserve0, pool.token0Decimals),
+    ethers.utils.formatUnits(reserve1, pool.token1Decimals)
+  ];
+
+  return {
+    ...pool,
+    reserves,
+    reservesRaw: [reserve0, reserve1]
+  };
+}
 
-  useEffect(() => {
-    const loadPools = async () => {
-      if (!provider) return;
-      
+// Applies a Sync event to a cached pool list; returns the same list if the pair isn't in it
+export function updatePoolReserves(
+  pools: Pool[],
+  pairAddress: string,
+  reserve0: ethers.BigNumber,
+  reserve1: ethers.BigNumber
+): Pool[] {
+  const index = pools.findIndex(pool => pool.pairAddress.toLowerCase() === pairAddress.toLowerCase());
+  if (index === -1) return pools;
+
+  const updated = [...pools];
+  updated[index] = withReserves(pools[index], reserve0, reserve1);
+
+  return updated;
+}
+
+export function usePools(provider: ethers.providers.JsonRpcProvider | null) {
+  const { chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+
+  const query = useQuery({
+    queryKey: poolsQueryKey(chainId, deployment?.factory),
+    queryFn: async () => {
       try {
-        setIsLoading(true);
-        setError(null);
-        
-        const factory = new ethers.Contract(
-          FACTORY_ADDRESS,
-          FACTORY_ABI,
-          provider
-        );
-        
-        const pairCount = await factory.allPairsLength();
-        const poolList: Pool[] = [];
-        
-        for (let i = 0; i < pairCount.toNumber(); i++) {
-          try {
-            const pairAddress = await factory.allPairs(i);
-            
-            const pair = new ethers.Contract(
-              pairAddress,
-              PAIR_ABI,
-              provider
-            );
-            
-            const token0Address = await pair.token0();
-            const token1Address = await pair.token1();
-            const reserves = await pair.getReserves();
-            
-            // Get token symbols
-            const token0 = new ethers.Contract(
-              token0Address,
-              ERC20_ABI,
-              provider
-            );
-            
-            const token1 = new ethers.Contract(
-              token1Address,
-              ERC20_ABI,
-              provider
-            );
-            
-            const [token0Symbol, token1Symbol, token0Decimals, token1Decimals] = await Promise.all([
-              token0.symbol(),
-              token1.symbol(),
-              token0.decimals(),
-              token1.decimals()
-            ]);
-            
-            // Calculate liquidity for sorting
-            const reserve0 = parseFloat(ethers.utils.formatUnits(reserves[0], token0Decimals));
-            const reserve1 = parseFloat(ethers.utils.formatUnits(reserves[1], token1Decimals));
-            const liquidity = reserve0 + reserve1;
-            
-            poolList.push({
-              pairAddress,
-              token0Address,
-              token1Address,
-              token0Symbol,
-              token1Symbol,
-              token0Decimals,
-              token1Decimals,
-              reserves: [
-                ethers.utils.formatUnits(reserves[0], token0Decimals),
-                ethers.utils.formatUnits(reserves[1], token1Decimals)
-              ],
-              liquidity
-            });
-          } catch (pairError) {
-            console.error(`Error processing pair at index ${i}:`, pairError);
-            // Continue with next pair instead of failing the entire operation
-          }
-        }
-
-        // Sort pools by liquidity
-        poolList.sort((a, b) => b.liquidity - a.liquidity);
-        
-        setPools(poolList);
+        return await fetchPools(provider!, deployment!.factory);
       } catch (error) {
         console.error("Error loading pools:", error);
-        setError("Failed to load liquidity pools");
-      } finally {
-        setIsLoading(false);
+        throw error;
       }
-    };
-    
-    loadPools();
-  }, [provider]);
+    },
+    enabled: !!provider && !!deployment,
+    // Writes invalidate the registry explicitly, so there is no need to refetch on every mount
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    pools: query.data ?? NO_POOLS,
+    isLoading: query.isLoading,
+    error: query.error ? "Failed to load liquidity pools" : null,
+    refetch: query.refetch,
+  };
+}
+
+// Call after any transaction that creates a pair or moves reserves
+export function useInvalidatePools() {
+  const queryClient = useQueryClient();
 
-  return { pools, isLoading, error };
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["pools"] }),
+    [queryClient]
+  );
 }
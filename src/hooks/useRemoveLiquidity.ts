@@ -0,0 +1,174 @@
+import { useCallback, useState } from "react";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { getMiniDexPair, getRouter } from "@/contracts";
+import { Deployment } from "@/constants/deployments";
+import { Pool, useInvalidatePools } from "@/hooks/usePools";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useTransaction } from "@/hooks/useTransaction";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
+import { useTokenApproval } from "@/hooks/useTokenApproval";
+import { hasAllowance } from "@/lib/approvals";
+import { getRemoveLiquidityAmounts } from "@/lib/liquidity";
+import { Simulation, simulateTransaction } from "@/lib/simulation";
+import { applySlippage } from "@/lib/transactionSettings";
+import { TokenAmount, formatTokenAmount, tokenAmount } from "@/lib/tokenAmount";
+import { getErrorMessage } from "@/lib/errors";
+
+interface RemoveLiquidityParams {
+  pool: Pool;
+  liquidity: ethers.BigNumber;
+  signer: ethers.Signer | null;
+  account: string | null;
+}
+
+export interface RemoveLiquidityResult {
+  amount0: TokenAmount;
+  amount1: TokenAmount;
+}
+
+// Expected amounts and the slippage-protected removeLiquidity arguments
+async function prepareRemoveLiquidity(
+  { pool, liquidity, signer, account }: RemoveLiquidityParams,
+  slippage: number,
+  deadline: number
+) {
+  if (!signer || !account) throw new Error("Please connect your wallet first");
+
+  const pair = getMiniDexPair(pool.pairAddress, signer);
+
+  const [totalSupply, reserves] = await Promise.all([
+    pair.totalSupply(),
+    pair.getReserves()
+  ]);
+
+  // Minimum amounts are derived from current reserves so the burn reverts if the price moves too far
+  const [amount0, amount1] = getRemoveLiquidityAmounts(
+    liquidity,
+    tokenAmount(
+      { address: pool.token0Address, symbol: pool.token0Symbol, decimals: pool.token0Decimals },
+      reserves[0]
+    ),
+    tokenAmount(
+      { address: pool.token1Address, symbol: pool.token1Symbol, decimals: pool.token1Decimals },
+      reserves[1]
+    ),
+    totalSupply
+  );
+  const amount0Min = applySlippage(amount0, slippage);
+  const amount1Min = applySlippage(amount1, slippage);
+
+  return {
+    pair,
+    amount0,
+    amount1,
+    args: [
+      pool.token0Address,
+      pool.token1Address,
+      liquidity,
+      amount0Min.raw,
+      amount1Min.raw,
+      account,
+      deadline
+    ] as const
+  };
+}
+
+// Router.removeLiquidity returns amounts in the order of its token arguments, which are token0 and token1 here
+function toRemoveLiquidityResult(
+  { amount0, amount1 }: { amount0: TokenAmount; amount1: TokenAmount },
+  [raw0, raw1]: [ethers.BigNumber, ethers.BigNumber]
+): RemoveLiquidityResult {
+  return {
+    amount0: tokenAmount(amount0.token, raw0),
+    amount1: tokenAmount(amount1.token, raw1)
+  };
+}
+
+export function useRemoveLiquidity() {
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { slippage, getDeadline } = useTransactionSettings();
+  const { deployment } = useDeployment();
+  const invalidatePools = useInvalidatePools();
+  const { approveIfNeeded } = useTokenApproval();
+  const { sendTransaction } = useTransaction();
+
+  // Dry run for the preview; resolves to null until the LP tokens are approved
+  const simulateRemoveLiquidity = useCallback(async (
+    params: RemoveLiquidityParams
+  ): Promise<Simulation<RemoveLiquidityResult> | null> => {
+    if (!deployment || !params.signer || !params.account) return null;
+
+    const prepared = await prepareRemoveLiquidity(params, slippage, getDeadline());
+    if (!(await hasAllowance(prepared.pair, params.account, deployment.router, params.liquidity))) return null;
+
+    const router = getRouter(deployment.router, params.signer);
+    const simulation = await simulateTransaction(router, "removeLiquidity", ...prepared.args);
+
+    return { ...simulation, result: toRemoveLiquidityResult(prepared, simulation.result) };
+  }, [deployment, slippage, getDeadline]);
+
+  const removeLiquidity = async (params: RemoveLiquidityParams) => {
+    const { pool, liquidity, signer, account } = params;
+
+    if (!signer || !account) {
+      toast.error("Please connect your wallet first");
+      return false;
+    }
+
+    if (!deployment) {
+      toast.error("MiniDex is not deployed on this network");
+      return false;
+    }
+
+    const pairSymbol = `${pool.token0Symbol}/${pool.token1Symbol}`;
+
+    try {
+      setIsRemoving(true);
+      setError(null);
+
+      if (liquidity.lte(0)) {
+        throw new Error("Please select an amount of liquidity to remove");
+      }
+
+      const { pair, amount0, amount1, args } = await prepareRemoveLiquidity(params, slippage, getDeadline());
+
+      const lpBalance = await pair.balanceOf(account);
+      if (lpBalance.lt(liquidity)) {
+        throw new Error(`Insufficient ${pairSymbol} LP balance`);
+      }
+
+      await approveIfNeeded({
+        tokenAddress: pool.pairAddress,
+        symbol: `${pairSymbol} LP`,
+        amount: liquidity,
+        signer,
+        account
+      });
+
+      // Dry run first so a revert is caught before the wallet prompt
+      const router = getRouter(deployment.router, signer);
+      const simulation = await simulateTransaction(router, "removeLiquidity", ...args);
+
+      await sendTransaction(
+        "removeLiquidity",
+        `Remove ${formatTokenAmount(amount0)} ${pool.token0Symbol} and ${formatTokenAmount(amount1)} ${pool.token1Symbol} liquidity`,
+        () => router.removeLiquidity(...args, { gasLimit: simulation.gasLimit })
+      );
+
+      invalidatePools();
+      return true;
+    } catch (error) {
+      console.error("Error removing liquidity:", error);
+      const errorMessage = getErrorMessage(error, "Failed to remove liquidity");
+      toast.error(errorMessage);
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return { removeLiquidity, simulateRemoveLiquidity, isRemoving, error };
+}
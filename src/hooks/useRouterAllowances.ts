@@ -0,0 +1,127 @@
+import { ethers } from "ethers";
+import { useQuery } from "@tanstack/react-query";
+import { getSimpleERC20, simpleERC20Abi } from "@/contracts";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { isUnlimitedAllowance } from "@/lib/approvals";
+import { loadCachedHistory, saveCachedHistory } from "@/lib/historyCache";
+import { multicall } from "@/lib/multicall";
+import { LOG_BLOCK_WINDOW } from "@/lib/poolEvents";
+import { TokenAmount, tokenAmount } from "@/lib/tokenAmount";
+
+export interface RouterAllowance {
+  allowance: TokenAmount;
+  isUnlimited: boolean;
+}
+
+interface ApprovalScan {
+  lastBlock: number; // Last block scanned, inclusive
+  lastBlockHash: string; // Detects a reset chain, e.g. anvil restarted, under a still-valid block number
+  tokens: string[]; // Checksummed addresses of every token approved for the Router so far
+}
+
+const erc20Interface = new ethers.utils.Interface(simpleERC20Abi);
+
+// Used when the deployment's block is unknown, e.g. a broadcast without receipts
+const APPROVAL_FALLBACK_LOOKBACK = 100_000;
+
+// Extends `cached` (or starts from `startBlock`) with every token the account approved for the Router, including LP tokens
+async function updateApprovalScan(
+  provider: ethers.providers.Provider,
+  router: string,
+  account: string,
+  cached: ApprovalScan | null,
+  startBlock: number | undefined
+): Promise<ApprovalScan> {
+  const latestBlock = await provider.getBlock("latest");
+  const latest = latestBlock.number;
+
+  if (cached) {
+    const lastScanned = cached.lastBlock <= latest ? await provider.getBlock(cached.lastBlock) : null;
+    if (lastScanned?.hash !== cached.lastBlockHash) {
+      return updateApprovalScan(provider, router, account, null, startBlock);
+    }
+  }
+
+  const topics = [
+    erc20Interface.getEventTopic("Approval"),
+    ethers.utils.hexZeroPad(account, 32),
+    ethers.utils.hexZeroPad(router, 32)
+  ];
+  const fromBlock = cached ? cached.lastBlock + 1 : startBlock ?? Math.max(0, latest - APPROVAL_FALLBACK_LOOKBACK);
+  const tokens = new Set(cached?.tokens);
+
+  for (let start = fromBlock; start <= latest; start += LOG_BLOCK_WINDOW) {
+    const logs = await provider.getLogs({
+      topics,
+      fromBlock: start,
+      toBlock: Math.min(latest, start + LOG_BLOCK_WINDOW - 1)
+    });
+    for (const log of logs) tokens.add(ethers.utils.getAddress(log.address));
+  }
+
+  return { lastBlock: latest, lastBlockHash: latestBlock.hash, tokens: Array.from(tokens) };
+}
+
+async function fetchRouterAllowances(
+  provider: ethers.providers.Provider,
+  router: string,
+  account: string,
+  tokenAddresses: string[]
+): Promise<RouterAllowance[]> {
+  const allowances = await Promise.all(tokenAddresses.map(async (address) => {
+    try {
+      const token = getSimpleERC20(address, provider);
+      const [allowance, symbol, decimals] = await Promise.all([
+        multicall(token, "allowance", account, router),
+        multicall(token, "symbol"),
+        multicall(token, "decimals")
+      ]);
+
+      return {
+        allowance: tokenAmount({ address, symbol, decimals }, allowance),
+        isUnlimited: isUnlimitedAllowance(allowance)
+      };
+    } catch (error) {
+      console.error(`Error loading allowance for ${address}:`, error);
+      return null;
+    }
+  }));
+
+  // Revoked or fully spent allowances have nothing left to manage
+  return allowances.filter((entry): entry is RouterAllowance => entry !== null && !entry.allowance.raw.isZero());
+}
+
+export function useRouterAllowances(
+  provider: ethers.providers.JsonRpcProvider | null,
+  account: string | null
+) {
+  const { chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+
+  const query = useQuery({
+    queryKey: ["routerAllowances", chainId, deployment?.router, account?.toLowerCase()],
+    queryFn: async () => {
+      try {
+        // Only blocks since the last visit are scanned for new approvals
+        const cacheKey = `${chainId}:${deployment!.router.toLowerCase()}:${account!.toLowerCase()}`;
+        const cached = await loadCachedHistory<ApprovalScan>("routerApprovals", cacheKey);
+        const scan = await updateApprovalScan(provider!, deployment!.router, account!, cached, deployment!.deploymentBlock);
+
+        await saveCachedHistory("routerApprovals", cacheKey, scan);
+        return await fetchRouterAllowances(provider!, deployment!.router, account!, scan.tokens);
+      } catch (error) {
+        console.error("Error loading router allowances:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && !!deployment && !!account,
+  });
+
+  return {
+    allowances: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error ? "Failed to load token approvals" : null,
+    refetch: query.refetch,
+  };
+}
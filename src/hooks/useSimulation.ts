@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { getErrorMessage } from "@/lib/errors";
+import { Simulation } from "@/lib/simulation";
+
+// `simulate` resolves to null while a token approval is still missing, since the dry run would revert on transferFrom
+export type Simulate<T> = () => Promise<Simulation<T> | null>;
+
+export interface SimulationState<T> {
+  simulation: Simulation<T> | null;
+  isSimulating: boolean;
+  awaitingApproval: boolean;
+  error: string | null; // Decoded revert reason
+}
+
+// Previews a write with a dry run whenever its arguments (captured by `queryKey`) change
+export function useSimulation<T>(queryKey: readonly unknown[], simulate: Simulate<T> | null): SimulationState<T> {
+  const query = useQuery({
+    queryKey: ["simulation", ...queryKey],
+    queryFn: async () => {
+      if (!simulate) return null;
+      try {
+        return await simulate();
+      } catch (error) {
+        console.error("Transaction simulation failed:", error);
+        throw error;
+      }
+    },
+    enabled: !!simulate,
+    // A revert is a result, not a flaky request
+    retry: false,
+    staleTime: 15_000
+  });
+
+  return {
+    simulation: simulate ? query.data ?? null : null,
+    isSimulating: !!simulate && query.isFetching,
+    awaitingApproval: !!simulate && query.isSuccess && query.data === null,
+    error: simulate && query.error ? getErrorMessage(query.error, "Transaction would fail") : null
+  };
+}
@@ -0,0 +1,41 @@
+import { useMemo, useState } from "react";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState<K extends string> {
+  key: K;
+  direction: SortDirection;
+}
+
+// Client-side table sorting; null values (e.g. unpriced tokens) always sort last
+export function useSortableRows<T, K extends string>(
+  rows: T[],
+  getSortValue: (row: T, key: K) => number | string | null,
+  initialSort: SortState<K>
+) {
+  const [sort, setSort] = useState<SortState<K>>(initialSort);
+
+  const sortedRows = useMemo(() => {
+    const factor = sort.direction === "asc" ? 1 : -1;
+
+    return [...rows].sort((a, b) => {
+      const valueA = getSortValue(a, sort.key);
+      const valueB = getSortValue(b, sort.key);
+      if (valueA === null || valueB === null) return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+
+      const compared = typeof valueA === "string" || typeof valueB === "string"
+        ? String(valueA).localeCompare(String(valueB))
+        : valueA - valueB;
+      return compared * factor;
+    });
+  }, [rows, getSortValue, sort]);
+
+  // Clicking the active column flips it; a new column starts with the largest values first
+  const toggleSort = (key: K) => {
+    setSort(current => current.key === key
+      ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+      : { key, direction: "desc" });
+  };
+
+  return { sortedRows, sort, toggleSort };
+}
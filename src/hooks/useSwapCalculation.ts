@@ -1,25 +1,46 @@
-
 import { useState, useEffect } from "react";
 import { ethers } from "ethers";
-import { ROUTER_ADDRESS } from "@/constants/addresses";
-import ROUTER_ABI from "@/constants/abis/router.json";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { getRouter } from "@/contracts";
+import { Pool } from "@/hooks/usePools";
+import { useDeployment } from "@/hooks/useDeployment";
+import { Route, TradeType, findBestRoute, findBestRouteExactOut, findPoolToken } from "@/lib/routing";
+import { TokenAmount, parseTokenAmount, toExact, tokenAmount } from "@/lib/tokenAmount";
 
+// `amount` is the input for exactIn trades and the desired output for exactOut trades
 export function useSwapCalculation(
-  amountIn: string,
+  amount: string,
   tokenIn: string,
   tokenOut: string,
-  provider: ethers.providers.Web3Provider | null
+  provider: ethers.providers.JsonRpcProvider | null,
+  pools: Pool[],
+  tradeType: TradeType = "exactIn"
 ) {
-  const [expectedOutput, setExpectedOutput] = useState<string>("");
+  const [inputAmount, setInputAmount] = useState<TokenAmount | null>(null);
+  const [outputAmount, setOutputAmount] = useState<TokenAmount | null>(null);
+  const [route, setRoute] = useState<Route | null>(null);
+  const [routeAmounts, setRouteAmounts] = useState<TokenAmount[]>([]);
   const [isCalculating, setIsCalculating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { deployment } = useDeployment();
 
   useEffect(() => {
-    const calculateOutput = async () => {
-      if (!provider || !amountIn || !tokenIn || !tokenOut || 
+    // Pools change on every Sync, so a slower earlier quote must not overwrite a newer one
+    let cancelled = false;
+
+    const resetQuote = () => {
+      setInputAmount(null);
+      setOutputAmount(null);
+      setRoute(null);
+      setRouteAmounts([]);
+    };
+
+    const calculateQuote = async () => {
+      if (!provider || !deployment || !amount || !tokenIn || !tokenOut ||
           !ethers.utils.isAddress(tokenIn) || !ethers.utils.isAddress(tokenOut)) {
-        setExpectedOutput("");
+        resetQuote();
+        // Nothing to quote, so drop a stale error; a cancelled quote may also have left the flag set
+        setError(null);
+        setIsCalculating(false);
         return;
       }
 
@@ -27,47 +48,86 @@ export function useSwapCalculation(
       setError(null);
 
       try {
-        const tokenInContract = new ethers.Contract(
-          tokenIn,
-          ERC20_ABI,
-          provider
-        );
-        
-        const inDecimals = await tokenInContract.decimals();
-        
-        const router = new ethers.Contract(
-          ROUTER_ADDRESS,
-          ROUTER_ABI,
-          provider
-        );
+        // The typed amount is denominated in the token on the fixed side of the trade
+        const fixedToken = findPoolToken(pools, tradeType === "exactIn" ? tokenIn : tokenOut);
+        const fixedAmount = fixedToken && parseTokenAmount(fixedToken, amount);
+
+        if (!fixedToken) {
+          setError("No route found between these tokens");
+          resetQuote();
+          return;
+        }
+
+        if (!fixedAmount || fixedAmount.raw.isZero()) {
+          setError("Please enter a valid amount");
+          resetQuote();
+          return;
+        }
 
-        const amountInWei = ethers.utils.parseUnits(amountIn, inDecimals);
-        const path = [tokenIn, tokenOut];
-        
-        // Get token out decimals
-        const tokenOutContract = new ethers.Contract(
-          tokenOut,
-          ERC20_ABI,
-          provider
+        // Quote every candidate path locally and keep the best one
+        const best = tradeType === "exactIn"
+          ? findBestRoute(pools, tokenIn, tokenOut, fixedAmount.raw)
+          : findBestRouteExactOut(pools, tokenIn, tokenOut, fixedAmount.raw);
+
+        if (!best) {
+          setError(tradeType === "exactIn"
+            ? "No route found between these tokens"
+            : "Not enough liquidity to receive that amount");
+          resetQuote();
+          return;
+        }
+
+        const router = getRouter(deployment.router, provider);
+
+        // Re-quote the chosen path on-chain so the amounts reflect current reserves
+        const amounts: ethers.BigNumber[] = tradeType === "exactIn"
+          ? await router.getAmountsOut(fixedAmount.raw, best.route.path)
+          : await router.getAmountsIn(fixedAmount.raw, best.route.path);
+        if (cancelled) return;
+
+        const quotedAmounts = amounts.map((value, i) =>
+          tokenAmount(
+            {
+              address: best.route.path[i],
+              symbol: best.route.symbols[i],
+              decimals: best.route.decimals[i],
+            },
+            value
+          )
         );
-        
-        const outDecimals = await tokenOutContract.decimals();
-        
-        const amounts = await router.getAmountsOut(amountInWei, path);
-        const amountOut = ethers.utils.formatUnits(amounts[1], outDecimals);
-        
-        setExpectedOutput(amountOut);
+
+        setRoute(best.route);
+        setRouteAmounts(quotedAmounts);
+        setInputAmount(quotedAmounts[0]);
+        setOutputAmount(quotedAmounts[quotedAmounts.length - 1]);
       } catch (error) {
-        console.error("Error estimating output:", error);
-        setError("Failed to estimate output amount");
-        setExpectedOutput("");
+        if (cancelled) return;
+        console.error("Error estimating swap amounts:", error);
+        setError(tradeType === "exactIn"
+          ? "Failed to estimate output amount"
+          : "Failed to estimate input amount");
+        resetQuote();
       } finally {
-        setIsCalculating(false);
+        if (!cancelled) setIsCalculating(false);
       }
     };
 
-    calculateOutput();
-  }, [amountIn, tokenIn, tokenOut, provider]);
+    calculateQuote();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [amount, tokenIn, tokenOut, provider, deployment, pools, tradeType]);
 
-  return { expectedOutput, isCalculating, error };
+  return {
+    inputAmount,
+    outputAmount,
+    // Decimal strings for the form fields
+    expectedInput: inputAmount ? toExact(inputAmount) : "",
+    expectedOutput: outputAmount ? toExact(outputAmount) : "",
+    route,
+    routeAmounts,
+    isCalculating,
+    error
+  };
 }
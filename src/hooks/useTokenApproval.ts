@@ -0,0 +1,85 @@
+import { useCallback } from "react";
+import { ethers } from "ethers";
+import { useQueryClient } from "@tanstack/react-query";
+import { getSimpleERC20 } from "@/contracts";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useTransaction } from "@/hooks/useTransaction";
+import { useTransactionSettings } from "@/hooks/useTransactionSettings";
+import { getApprovalAmount } from "@/lib/approvals";
+import { simulateTransaction } from "@/lib/simulation";
+
+interface ApprovalParams {
+  tokenAddress: string;
+  symbol: string;
+  amount: ethers.BigNumber;
+  signer: ethers.Signer;
+  account: string;
+  spender?: string; // Defaults to the Router
+}
+
+export function useTokenApproval() {
+  const { approvalMode } = useTransactionSettings();
+  const { deployment } = useDeployment();
+  const router = deployment?.router;
+  const { sendTransaction } = useTransaction();
+  const queryClient = useQueryClient();
+
+  const invalidateAllowances = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["routerAllowances"] }),
+    [queryClient]
+  );
+
+  // Sends an approval only when the current allowance doesn't cover `amount`; returns whether one was sent
+  const approveIfNeeded = useCallback(async ({
+    tokenAddress,
+    symbol,
+    amount,
+    signer,
+    account,
+    spender = router
+  }: ApprovalParams) => {
+    if (!spender) throw new Error("MiniDex is not deployed on this network");
+
+    const token = getSimpleERC20(tokenAddress, signer);
+
+    const allowance: ethers.BigNumber = await token.allowance(account, spender);
+    if (allowance.gte(amount)) {
+      return false;
+    }
+
+    const approvalAmount = getApprovalAmount(amount, approvalMode);
+    const simulation = await simulateTransaction(token, "approve", spender, approvalAmount);
+
+    await sendTransaction(
+      "approve",
+      approvalMode === "unlimited" ? `Approve unlimited ${symbol}` : `Approve ${symbol}`,
+      () => token.approve(spender, approvalAmount, { gasLimit: simulation.gasLimit })
+    );
+
+    invalidateAllowances();
+    return true;
+  }, [approvalMode, router, sendTransaction, invalidateAllowances]);
+
+  const revokeApproval = useCallback(async (
+    tokenAddress: string,
+    symbol: string,
+    signer: ethers.Signer,
+    spender: string | undefined = router
+  ) => {
+    if (!spender) throw new Error("MiniDex is not deployed on this network");
+
+    const token = getSimpleERC20(tokenAddress, signer);
+
+    const simulation = await simulateTransaction(token, "approve", spender, 0);
+
+    await sendTransaction(
+      "revoke",
+      `Revoke ${symbol} approval`,
+      () => token.approve(spender, 0, { gasLimit: simulation.gasLimit })
+    );
+
+    invalidateAllowances();
+  }, [router, sendTransaction, invalidateAllowances]);
+
+  return { approveIfNeeded, revokeApproval };
+}
@@ -1,27 +1,36 @@
 
 import { useState, useEffect } from "react";
 import { ethers } from "ethers";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { getSimpleERC20 } from "@/contracts";
+import { multicall } from "@/lib/multicall";
+import { TokenAmount, tokenAmount } from "@/lib/tokenAmount";
 
 export interface TokenBalance {
   address: string;
   symbol: string;
   balance: string;
+  balanceAmount: TokenAmount;
   decimals: number;
 }
 
 export function useTokenBalances(
   tokenAddresses: string[],
-  provider: ethers.providers.Web3Provider | null,
+  provider: ethers.providers.JsonRpcProvider | null,
   account: string | null
 ) {
   const [tokenBalances, setTokenBalances] = useState<Record<string, TokenBalance | null>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Callers may pass a fresh array every render; only a change in the addresses themselves should refetch
+  const tokenKey = tokenAddresses.join(",");
+
   useEffect(() => {
+    const addresses = tokenKey ? tokenKey.split(",") : [];
+    let cancelled = false;
+
     const updateTokenBalances = async () => {
-      if (!provider || !account || tokenAddresses.some(addr => !addr || !ethers.utils.isAddress(addr))) {
+      if (!provider || addresses.some(addr => !addr || !ethers.utils.isAddress(addr))) {
         return;
       }
 
@@ -30,42 +39,43 @@ export function useTokenBalances(
 
       const balances: Record<string, TokenBalance | null> = {};
 
-      for (const address of tokenAddresses) {
-        if (!address) continue;
+      // Lookups run in parallel so the multicall layer batches them together
+      await Promise.all(addresses.map(async (address) => {
+        if (!address) return;
         
         try {
-          const tokenContract = new ethers.Contract(
-            address,
-            ERC20_ABI,
-            provider
-          );
+          const tokenContract = getSimpleERC20(address, provider);
           
           const [symbol, decimals, balanceBN] = await Promise.all([
-            tokenContract.symbol(),
-            tokenContract.decimals(),
-            tokenContract.balanceOf(account)
+            multicall(tokenContract, "symbol"),
+            multicall(tokenContract, "decimals"),
+            // Read-only visitors have no balance to show
+            account ? multicall(tokenContract, "balanceOf", account) : ethers.BigNumber.from(0)
           ]);
           
-          const balance = ethers.utils.formatUnits(balanceBN, decimals);
-          
           balances[address] = {
             address,
             symbol,
-            balance,
+            balance: ethers.utils.formatUnits(balanceBN, decimals),
+            balanceAmount: tokenAmount({ address, symbol, decimals }, balanceBN),
             decimals
           };
         } catch (error) {
           console.error(`Error getting token balance for ${address}:`, error);
           balances[address] = null;
         }
-      }
-      
+      }));
+
+      if (cancelled) return;
       setTokenBalances(balances);
       setIsLoading(false);
     };
 
     updateTokenBalances();
-  }, [tokenAddresses, provider, account]);
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenKey, provider, account]);
 
   return { tokenBalances, isLoading, error };
 }
@@ -1,18 +1,21 @@
 
 import { useState, useEffect } from "react";
 import { ethers } from "ethers";
-import ERC20_ABI from "@/constants/abis/erc20.json";
+import { getSimpleERC20 } from "@/contracts";
+import { multicall } from "@/lib/multicall";
+import { TokenAmount, tokenAmount } from "@/lib/tokenAmount";
 
 export interface TokenInfo {
   address: string;
   symbol: string;
   balance: string;
+  balanceAmount: TokenAmount;
   decimals: number;
 }
 
 export function useTokenInfo(
   tokenAddress: string | undefined,
-  provider: ethers.providers.Web3Provider | null,
+  provider: ethers.providers.JsonRpcProvider | null,
   account: string | null
 ) {
   const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
@@ -21,7 +24,7 @@ export function useTokenInfo(
 
   useEffect(() => {
     const fetchTokenInfo = async () => {
-      if (!provider || !account || !tokenAddress || !ethers.utils.isAddress(tokenAddress)) {
+      if (!provider || !tokenAddress || !ethers.utils.isAddress(tokenAddress)) {
         setTokenInfo(null);
         return;
       }
@@ -30,24 +33,22 @@ export function useTokenInfo(
       setError(null);
 
       try {
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          ERC20_ABI,
-          provider
-        );
+        const tokenContract = getSimpleERC20(tokenAddress, provider);
         
         const [symbol, decimals, balanceBN] = await Promise.all([
-          tokenContract.symbol(),
-          tokenContract.decimals(),
-          tokenContract.balanceOf(account)
+          multicall(tokenContract, "symbol"),
+          multicall(tokenContract, "decimals"),
+          // Read-only visitors have no balance to show
+          account ? multicall(tokenContract, "balanceOf", account) : ethers.BigNumber.from(0)
         ]);
         
-        const balance = ethers.utils.formatUnits(balanceBN, decimals);
+        const balanceAmount = tokenAmount({ address: tokenAddress, symbol, decimals }, balanceBN);
         
         setTokenInfo({
           address: tokenAddress,
           symbol,
-          balance,
+          balance: ethers.utils.formatUnits(balanceBN, decimals),
+          balanceAmount,
           decimals
         });
       } catch (error) {
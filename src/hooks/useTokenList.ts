@@ -0,0 +1,91 @@
+import { ethers } from "ethers";
+import { useQuery } from "@tanstack/react-query";
+import { getSimpleERC20, getTokenFactory } from "@/contracts";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { usePools } from "@/hooks/usePools";
+import { multicall } from "@/lib/multicall";
+import { loadImportedTokens, uniqueAddresses } from "@/lib/tokenList";
+
+export interface ListedToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  balance: string; // Formatted; "0" without a connected account
+  imported: boolean;
+}
+
+const NO_TOKENS: ListedToken[] = [];
+
+async function fetchTokenList(
+  provider: ethers.providers.Provider,
+  tokenFactoryAddress: string,
+  poolTokens: string[],
+  importedTokens: string[],
+  account: string | null
+): Promise<ListedToken[]> {
+  const deployedTokens: string[] = await multicall(getTokenFactory(tokenFactoryAddress, provider), "getDeployedTokens");
+  const listed = new Set([...poolTokens, ...deployedTokens].map(address => address.toLowerCase()));
+
+  const tokens = await Promise.all(
+    uniqueAddresses([...poolTokens, ...deployedTokens, ...importedTokens]).map(async (address) => {
+      try {
+        const token = getSimpleERC20(address, provider);
+        const [symbol, name, decimals, balance] = await Promise.all([
+          multicall(token, "symbol"),
+          multicall(token, "name"),
+          multicall(token, "decimals"),
+          account ? multicall(token, "balanceOf", account) : ethers.BigNumber.from(0)
+        ]);
+
+        return {
+          address,
+          symbol,
+          name,
+          decimals,
+          balance: ethers.utils.formatUnits(balance, decimals),
+          // Once an imported token is paired or known to the factory it's no longer flagged
+          imported: !listed.has(address.toLowerCase())
+        };
+      } catch (tokenError) {
+        console.error(`Error loading token ${address}:`, tokenError);
+        return null;
+      }
+    })
+  );
+
+  // Held tokens first, then alphabetical
+  return tokens
+    .filter((token): token is ListedToken => token !== null)
+    .sort((a, b) => parseFloat(b.balance) - parseFloat(a.balance) || a.symbol.localeCompare(b.symbol));
+}
+
+// Every token in a factory pair, deployed through the TokenFactory or imported by the user, with balances
+export function useTokenList() {
+  const { provider, account, chainId } = useWeb3Provider();
+  const { deployment } = useDeployment();
+  const { pools, isLoading: poolsLoading } = usePools(provider);
+
+  const poolTokens = uniqueAddresses(pools.flatMap(pool => [pool.token0Address, pool.token1Address]));
+  const importedTokens = chainId ? loadImportedTokens(chainId) : [];
+
+  const query = useQuery({
+    queryKey: ["tokenList", chainId, deployment?.tokenFactory, account, poolTokens, importedTokens],
+    queryFn: async () => {
+      try {
+        return await fetchTokenList(provider!, deployment!.tokenFactory, poolTokens, importedTokens, account);
+      } catch (error) {
+        console.error("Error loading token list:", error);
+        throw error;
+      }
+    },
+    enabled: !!provider && !!deployment && !poolsLoading,
+  });
+
+  return {
+    tokens: query.data ?? NO_TOKENS,
+    isLoading: poolsLoading || query.isLoading,
+    error: query.error ? "Failed to load tokens" : null,
+  };
+}
@@ -0,0 +1,226 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { ContractReceipt, ContractTransaction, ethers } from "ethers";
+import { toast } from "sonner";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import {
+  TrackedTransaction,
+  TransactionKind,
+  TransactionStatus,
+  loadTransactions,
+  saveTransactions,
+} from "@/lib/transactions";
+
+interface TransactionOwner {
+  chainId: number;
+  account: string;
+}
+
+interface TransactionManagerState {
+  transactions: TrackedTransaction[];
+  pendingCount: number;
+  // Submits through `submit`, records the transaction and resolves once it is mined; rejects if it reverts
+  sendTransaction: (
+    kind: TransactionKind,
+    summary: string,
+    submit: () => Promise<ContractTransaction>
+  ) => Promise<ContractReceipt>;
+  clearHistory: () => void;
+}
+
+const TransactionContext = createContext<TransactionManagerState>({
+  transactions: [],
+  pendingCount: 0,
+  sendTransaction: async () => {
+    throw new Error("TransactionProvider is missing");
+  },
+  clearHistory: () => {},
+});
+
+const ownerKey = ({ chainId, account }: TransactionOwner) => `${chainId}:${account.toLowerCase()}`;
+
+// How long a resumed transaction is waited on before checking whether it was dropped
+const RESUME_CHECK_INTERVAL_MS = 60_000;
+
+// Waits for a transaction sent in an earlier session; keeps waiting only while the node still holds it
+async function waitForResumedTransaction(
+  provider: ethers.providers.Provider,
+  account: string,
+  tx: TrackedTransaction
+): Promise<{ status: TransactionStatus; blockNumber?: number }> {
+  for (;;) {
+    try {
+      const receipt = await provider.waitForTransaction(tx.hash, 1, RESUME_CHECK_INTERVAL_MS);
+      return { status: receipt.status === 1 ? "confirmed" : "failed", blockNumber: receipt.blockNumber };
+    } catch (error) {
+      if ((error as { code?: string }).code !== ethers.utils.Logger.errors.TIMEOUT) throw error;
+    }
+
+    const [pending, nonce] = await Promise.all([
+      provider.getTransaction(tx.hash),
+      provider.getTransactionCount(account, "latest")
+    ]);
+    // Mined since the timeout fired; the next wait returns its receipt straight away
+    if (pending?.blockNumber) continue;
+    // Forgotten by the node, or another transaction (e.g. a wallet cancel) used its nonce
+    if (!pending || nonce > tx.nonce) {
+      // The two reads above can straddle the block that mines it, so ask for the receipt before giving up
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      if (receipt) return { status: receipt.status === 1 ? "confirmed" : "failed", blockNumber: receipt.blockNumber };
+      return { status: "dropped" };
+    }
+  }
+}
+
+export const TransactionProvider = ({ children }: { children: ReactNode }) => {
+  const { provider, account, chainId } = useWeb3Provider();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const currentOwner = useRef<string | null>(null);
+  const watching = useRef(new Set<string>());
+
+  // Writes go straight to storage, so a transaction that settles after switching accounts lands in the right history
+  const updateTransactions = useCallback((
+    owner: TransactionOwner,
+    updater: (transactions: TrackedTransaction[]) => TrackedTransaction[]
+  ) => {
+    const next = updater(loadTransactions(owner.chainId, owner.account));
+    saveTransactions(owner.chainId, owner.account, next);
+    if (currentOwner.current === ownerKey(owner)) {
+      setTransactions(next);
+    }
+  }, []);
+
+  // `replacementHash` records the sped-up transaction that was mined in place of `hash`
+  const finalizeTransaction = useCallback((
+    owner: TransactionOwner,
+    hash: string,
+    status: TransactionStatus,
+    blockNumber?: number,
+    replacementHash?: string
+  ) => {
+    updateTransactions(owner, list => list.map(tx =>
+      tx.hash === hash
+        ? {
+            ...tx,
+            ...(replacementHash && { hash: replacementHash, replacedHash: hash }),
+            status,
+            blockNumber,
+            finalizedAt: Date.now()
+          }
+        : tx
+    ));
+  }, [updateTransactions]);
+
+  useEffect(() => {
+    if (!provider || !account || !chainId) {
+      currentOwner.current = null;
+      setTransactions([]);
+      return;
+    }
+
+    const owner = { chainId, account };
+    currentOwner.current = ownerKey(owner);
+
+    const stored = loadTransactions(chainId, account);
+    setTransactions(stored);
+
+    // Resume tracking transactions that were still pending when the page was closed
+    for (const tx of stored) {
+      const watchKey = `${ownerKey(owner)}:${tx.hash}`;
+      if (tx.status !== "pending" || watching.current.has(watchKey)) continue;
+
+      watching.current.add(watchKey);
+      waitForResumedTransaction(provider, account, tx)
+        .then(({ status, blockNumber }) => finalizeTransaction(owner, tx.hash, status, blockNumber))
+        .catch(error => {
+          console.error(`Error tracking transaction ${tx.hash}:`, error);
+          finalizeTransaction(owner, tx.hash, "failed");
+        })
+        .finally(() => watching.current.delete(watchKey));
+    }
+  }, [provider, account, chainId, finalizeTransaction]);
+
+  const sendTransaction = useCallback(async (
+    kind: TransactionKind,
+    summary: string,
+    submit: () => Promise<ContractTransaction>
+  ) => {
+    if (!account || !chainId) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    const owner = { chainId, account };
+    const tx = await submit();
+
+    updateTransactions(owner, list => [
+      {
+        hash: tx.hash,
+        kind,
+        summary,
+        nonce: tx.nonce,
+        status: "pending",
+        submittedAt: Date.now(),
+      },
+      ...list,
+    ]);
+    toast.info(`${summary} submitted`);
+
+    const watchKey = `${ownerKey(owner)}:${tx.hash}`;
+    watching.current.add(watchKey);
+
+    try {
+      const receipt = await tx.wait();
+      finalizeTransaction(owner, tx.hash, "confirmed", receipt.blockNumber);
+      toast.success(`${summary} confirmed`);
+      return receipt;
+    } catch (error) {
+      // tx.wait() rejects with the receipt attached when the transaction reverts or is replaced
+      const { code, cancelled, replacement, receipt } = error as {
+        code?: string;
+        cancelled?: boolean;
+        replacement?: ethers.providers.TransactionResponse;
+        receipt?: ContractReceipt;
+      };
+
+      if (code === ethers.utils.Logger.errors.TRANSACTION_REPLACED) {
+        // Sped up by the wallet: the same call was mined under the replacement's hash
+        if (!cancelled && replacement && receipt) {
+          const succeeded = receipt.status === 1;
+          finalizeTransaction(owner, tx.hash, succeeded ? "confirmed" : "failed", receipt.blockNumber, replacement.hash);
+          if (succeeded) {
+            toast.success(`${summary} confirmed`);
+            return receipt;
+          }
+        } else {
+          finalizeTransaction(owner, tx.hash, "dropped");
+        }
+        throw error;
+      }
+
+      finalizeTransaction(owner, tx.hash, "failed", receipt?.blockNumber);
+      throw error;
+    } finally {
+      watching.current.delete(watchKey);
+    }
+  }, [account, chainId, updateTransactions, finalizeTransaction]);
+
+  const clearHistory = useCallback(() => {
+    if (!account || !chainId) return;
+    // Pending transactions stay so they keep being tracked
+    updateTransactions({ chainId, account }, list => list.filter(tx => tx.status === "pending"));
+  }, [account, chainId, updateTransactions]);
+
+  return (
+    <TransactionContext.Provider
+      value={{
+        transactions,
+        pendingCount: transactions.filter(tx => tx.status === "pending").length,
+        sendTransaction,
+        clearHistory,
+      }}
+    >
+      {children}
+    </TransactionContext.Provider>
+  );
+};
+
+export const useTransaction = () => useContext(TransactionContext);
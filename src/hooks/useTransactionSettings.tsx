@@ -0,0 +1,91 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import {
+  ApprovalMode,
+  DEFAULT_TRANSACTION_SETTINGS,
+  TransactionSettings,
+  getDeadline,
+  isValidApprovalMode,
+  isValidDeadline,
+  isValidSlippage,
+} from "@/lib/transactionSettings";
+
+const STORAGE_KEY = "minidex:transaction-settings";
+
+interface TransactionSettingsState extends TransactionSettings {
+  setSlippage: (slippage: number) => void;
+  setDeadlineMinutes: (minutes: number) => void;
+  setApprovalMode: (mode: ApprovalMode) => void;
+  resetSettings: () => void;
+  getDeadline: () => number;
+}
+
+const TransactionSettingsContext = createContext<TransactionSettingsState>({
+  ...DEFAULT_TRANSACTION_SETTINGS,
+  setSlippage: () => {},
+  setDeadlineMinutes: () => {},
+  setApprovalMode: () => {},
+  resetSettings: () => {},
+  getDeadline: () => getDeadline(DEFAULT_TRANSACTION_SETTINGS.deadlineMinutes),
+});
+
+function loadSettings(): TransactionSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return {
+      slippage: isValidSlippage(stored.slippage) ? stored.slippage : DEFAULT_TRANSACTION_SETTINGS.slippage,
+      deadlineMinutes: isValidDeadline(stored.deadlineMinutes)
+        ? stored.deadlineMinutes
+        : DEFAULT_TRANSACTION_SETTINGS.deadlineMinutes,
+      approvalMode: isValidApprovalMode(stored.approvalMode)
+        ? stored.approvalMode
+        : DEFAULT_TRANSACTION_SETTINGS.approvalMode,
+    };
+  } catch (error) {
+    console.error("Error loading transaction settings:", error);
+    return DEFAULT_TRANSACTION_SETTINGS;
+  }
+}
+
+export const TransactionSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<TransactionSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Invalid values are kept out of state so every Router call reads something usable
+  const setSlippage = (slippage: number) => {
+    if (isValidSlippage(slippage)) {
+      setSettings(current => ({ ...current, slippage }));
+    }
+  };
+
+  const setDeadlineMinutes = (deadlineMinutes: number) => {
+    if (isValidDeadline(deadlineMinutes)) {
+      setSettings(current => ({ ...current, deadlineMinutes }));
+    }
+  };
+
+  const setApprovalMode = (approvalMode: ApprovalMode) => {
+    setSettings(current => ({ ...current, approvalMode }));
+  };
+
+  const resetSettings = () => setSettings(DEFAULT_TRANSACTION_SETTINGS);
+
+  return (
+    <TransactionSettingsContext.Provider
+      value={{
+        ...settings,
+        setSlippage,
+        setDeadlineMinutes,
+        setApprovalMode,
+        resetSettings,
+        getDeadline: () => getDeadline(settings.deadlineMinutes),
+      }}
+    >
+      {children}
+    </TransactionSettingsContext.Provider>
+  );
+};
+
+export const useTransactionSettings = () => useContext(TransactionSettingsContext);
@@ -1,110 +1,258 @@
-
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useMemo, useRef, useCallback, ReactNode } from "react";
 import { ethers } from "ethers";
 import { toast } from "sonner";
+import { READ_ONLY_RPC_URL, getNetworkConfig, getNetworkName } from "@/constants/networks";
+import { getErrorMessage } from "@/lib/errors";
+import { WalletDetail, discoverWallets, loadSelectedWallet, saveSelectedWallet } from "@/lib/eip6963";
+import { ANVIL_CHAIN_ID, getDevWallet, getDevWalletId, parseDevWalletId } from "@/lib/devWallet";
 
 interface Web3ProviderState {
-  provider: ethers.providers.Web3Provider | null;
+  // The wallet's provider once connected, otherwise the read-only RPC provider
+  provider: ethers.providers.JsonRpcProvider | null;
   signer: ethers.Signer | null;
   account: string | null;
   chainId: number | null;
-  connectWallet: () => Promise<void>;
+  isReadOnly: boolean;
+  // Browser wallets found through EIP-6963 discovery
+  wallets: WalletDetail[];
+  wallet: WalletDetail | null;
+  // Anvil's prefunded accounts, signed in-page; only offered when the RPC node is anvil
+  isDevWalletAvailable: boolean;
+  devAccountIndex: number | null;
+  connectWallet: (wallet: WalletDetail) => Promise<void>;
+  connectDevWallet: (index: number) => void;
   disconnectWallet: () => void;
+  // Asks the wallet to switch, adding the chain first if the wallet doesn't know it
+  switchNetwork: (chainId: number) => Promise<void>;
   isConnecting: boolean;
 }
 
+// "any" lets the provider follow chain switches instead of throwing on a network change
+const createWalletProvider = (wallet: WalletDetail) =>
+  new ethers.providers.Web3Provider(wallet.provider as ethers.providers.ExternalProvider, "any");
+
+// 4902 means the wallet doesn't know the chain; MetaMask Mobile nests it in the error data
+const isUnknownChainError = (error: unknown) => {
+  const { code, data } = (error ?? {}) as { code?: number; data?: { originalError?: { code?: number } } };
+  return code === 4902 || data?.originalError?.code === 4902;
+};
+
 const Web3Context = createContext<Web3ProviderState>({
   provider: null,
   signer: null,
   account: null,
   chainId: null,
+  isReadOnly: true,
+  wallets: [],
+  wallet: null,
+  isDevWalletAvailable: false,
+  devAccountIndex: null,
   connectWallet: async () => {},
+  connectDevWallet: () => {},
   disconnectWallet: () => {},
+  switchNetwork: async () => {},
   isConnecting: false,
 });
 
 export const Web3Provider = ({ children }: { children: ReactNode }) => {
-  const [provider, setProvider] = useState<ethers.providers.Web3Provider | null>(null);
+  const [provider, setProvider] = useState<ethers.providers.JsonRpcProvider | null>(null);
   const [signer, setSigner] = useState<ethers.Signer | null>(null);
   const [account, setAccount] = useState<string | null>(null);
   const [chainId, setChainId] = useState<number | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [wallets, setWallets] = useState<WalletDetail[]>([]);
+  const [wallet, setWallet] = useState<WalletDetail | null>(null);
+  const [devAccountIndex, setDevAccountIndex] = useState<number | null>(null);
+  const reconnectAttempted = useRef(false);
 
-  const connectWallet = async () => {
-    if (typeof window.ethereum === 'undefined') {
-      toast.error("MetaMask is not installed. Please install MetaMask to use this application.");
-      return;
-    }
+  // Reads work before connecting, so pools and quotes can be browsed without a wallet
+  const readOnlyProvider = useMemo(() => new ethers.providers.StaticJsonRpcProvider(READ_ONLY_RPC_URL), []);
+  const [readOnlyChainId, setReadOnlyChainId] = useState<number | null>(null);
+
+  useEffect(() => {
+    readOnlyProvider
+      .getNetwork()
+      .then(network => setReadOnlyChainId(network.chainId))
+      .catch(error => console.error(`Read-only RPC at ${READ_ONLY_RPC_URL} is unreachable:`, error));
+  }, [readOnlyProvider]);
+
+  // Without a reachable node there is nothing to read from
+  const fallbackProvider = readOnlyChainId ? readOnlyProvider : null;
+  const isDevWalletAvailable = readOnlyChainId === ANVIL_CHAIN_ID;
+
+  useEffect(() => discoverWallets(setWallets), []);
+
+  const activateWallet = useCallback(async (selected: WalletDetail, accounts: string[]) => {
+    const provider = createWalletProvider(selected);
+    const network = await provider.getNetwork();
 
+    setWallet(selected);
+    setDevAccountIndex(null);
+    setProvider(provider);
+    setSigner(provider.getSigner());
+    setAccount(accounts[0]);
+    setChainId(network.chainId);
+    saveSelectedWallet(selected.info.rdns);
+  }, []);
+
+  const connectWallet = async (selected: WalletDetail) => {
     try {
       setIsConnecting(true);
-      
+
       // Request account access
-      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
-      const provider = new ethers.providers.Web3Provider(window.ethereum);
-      const signer = provider.getSigner();
-      const network = await provider.getNetwork();
-      
-      setProvider(provider);
-      setSigner(signer);
-      setAccount(accounts[0]);
-      setChainId(network.chainId);
-      
-      toast.success("Wallet connected!");
-      
+      const accounts = await selected.provider.request({ method: 'eth_requestAccounts' }) as string[];
+      await activateWallet(selected, accounts);
+
+      toast.success(`${selected.info.name} connected!`);
+
     } catch (error) {
       console.error("Error connecting wallet:", error);
-      toast.error("Failed to connect wallet");
+      toast.error(getErrorMessage(error, "Failed to connect wallet"));
     } finally {
       setIsConnecting(false);
     }
   };
 
-  const disconnectWallet = () => {
+  // Signs with one of anvil's accounts through the read-only provider, no extension involved
+  const connectDevWallet = useCallback((index: number) => {
+    if (!isDevWalletAvailable) {
+      toast.error("The dev wallet is only available against a local anvil node");
+      return;
+    }
+
+    const devWallet = getDevWallet(index, readOnlyProvider);
+    setWallet(null);
+    setDevAccountIndex(index);
+    setProvider(readOnlyProvider);
+    setSigner(devWallet);
+    setAccount(devWallet.address);
+    setChainId(ANVIL_CHAIN_ID);
+    saveSelectedWallet(getDevWalletId(index));
+  }, [isDevWalletAvailable, readOnlyProvider]);
+
+  const disconnectWallet = useCallback(() => {
+    setWallet(null);
+    setDevAccountIndex(null);
     setProvider(null);
     setSigner(null);
     setAccount(null);
     setChainId(null);
+    saveSelectedWallet(null);
     toast.info("Wallet disconnected");
-  };
+  }, []);
 
+  // Reconnect to the remembered wallet without a prompt; eth_accounts is empty unless the site is still authorized
   useEffect(() => {
-    // Setup event listeners for account and chain changes
-    if (window.ethereum) {
-      const handleAccountsChanged = (accounts: string[]) => {
-        if (accounts.length === 0) {
-          disconnectWallet();
-        } else {
-          setAccount(accounts[0]);
-          toast.info("Account changed");
-        }
-      };
+    if (reconnectAttempted.current || account) return;
 
-      const handleChainChanged = (_chainId: string) => {
-        window.location.reload();
-      };
+    const devIndex = parseDevWalletId(loadSelectedWallet());
+    if (devIndex !== null) {
+      if (!isDevWalletAvailable) return;
+      reconnectAttempted.current = true;
+      connectDevWallet(devIndex);
+      return;
+    }
 
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
+    const remembered = wallets.find(w => w.info.rdns === loadSelectedWallet());
+    if (!remembered) return;
 
-      return () => {
-        if (window.ethereum) {
-          window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-          window.ethereum.removeListener('chainChanged', handleChainChanged);
+    reconnectAttempted.current = true;
+    remembered.provider
+      .request({ method: 'eth_accounts' })
+      .then(accounts => {
+        if (Array.isArray(accounts) && accounts.length > 0) {
+          return activateWallet(remembered, accounts);
         }
-      };
+      })
+      .catch(error => console.error("Error reconnecting wallet:", error));
+  }, [wallets, account, activateWallet, isDevWalletAvailable, connectDevWallet]);
+
+  useEffect(() => {
+    // Setup event listeners for account and chain changes on the connected wallet only
+    if (!wallet) return;
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        disconnectWallet();
+      } else {
+        setAccount(accounts[0]);
+        toast.info("Account changed");
+      }
+    };
+
+    // A fresh provider resets everything keyed by it or by chainId, without reloading the page
+    const handleChainChanged = (hexChainId: string) => {
+      const provider = createWalletProvider(wallet);
+      const nextChainId = Number(hexChainId);
+      setProvider(provider);
+      setSigner(provider.getSigner());
+      setChainId(nextChainId);
+      toast.info(`Switched to ${getNetworkName(nextChainId)}`);
+    };
+
+    wallet.provider.on('accountsChanged', handleAccountsChanged);
+    wallet.provider.on('chainChanged', handleChainChanged);
+
+    return () => {
+      wallet.provider.removeListener('accountsChanged', handleAccountsChanged);
+      wallet.provider.removeListener('chainChanged', handleChainChanged);
+    };
+  }, [wallet, disconnectWallet]);
+
+  const switchNetwork = useCallback(async (targetChainId: number) => {
+    if (!wallet) {
+      toast.error(devAccountIndex !== null
+        ? "The dev wallet follows the RPC node and can't switch networks"
+        : "Please connect your wallet first");
+      return;
     }
-  }, []);
+
+    const hexChainId = ethers.utils.hexValue(targetChainId);
+
+    try {
+      await wallet.provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: hexChainId }] });
+    } catch (error) {
+      const network = getNetworkConfig(targetChainId);
+      if (!isUnknownChainError(error) || !network) {
+        console.error("Error switching network:", error);
+        toast.error(getErrorMessage(error, "Failed to switch network"));
+        return;
+      }
+
+      try {
+        await wallet.provider.request({
+          method: 'wallet_addEthereumChain',
+          params: [{
+            chainId: hexChainId,
+            chainName: network.name,
+            rpcUrls: [network.rpcUrl],
+            nativeCurrency: network.nativeCurrency,
+            blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+          }],
+        });
+      } catch (addError) {
+        console.error("Error adding network:", addError);
+        toast.error(getErrorMessage(addError, `Failed to add ${network.name} to your wallet`));
+      }
+    }
+  }, [wallet, devAccountIndex]);
 
   return (
     <Web3Context.Provider
       value={{
-        provider,
+        provider: provider ?? fallbackProvider,
         signer,
         account,
-        chainId,
+        chainId: provider ? chainId : readOnlyChainId,
+        isReadOnly: !signer,
+        wallets,
+        wallet,
+        isDevWalletAvailable,
+        devAccountIndex,
         connectWallet,
+        connectDevWallet,
         disconnectWallet,
+        switchNetwork,
         isConnecting,
       }}
     >
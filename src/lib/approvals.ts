@@ -0,0 +1,25 @@
+import { BigNumber, ethers } from "ethers";
+import { SimpleERC20 } from "@/contracts";
+import { multicall } from "@/lib/multicall";
+import { ApprovalMode } from "@/lib/transactionSettings";
+
+// Allowance to request for a transaction that spends `amount`
+export function getApprovalAmount(amount: BigNumber, mode: ApprovalMode): BigNumber {
+  return mode === "unlimited" ? ethers.constants.MaxUint256 : amount;
+}
+
+// Some tokens decrement even a max allowance, so anything above half of it still counts as unlimited
+export function isUnlimitedAllowance(allowance: BigNumber): boolean {
+  return allowance.gte(ethers.constants.MaxUint256.div(2));
+}
+
+// Whether `owner` already lets `spender` move `amount` of the token
+export async function hasAllowance(
+  token: SimpleERC20,
+  owner: string,
+  spender: string,
+  amount: BigNumber
+): Promise<boolean> {
+  const allowance = await multicall(token, "allowance", owner, spender);
+  return allowance.gte(amount);
+}
@@ -0,0 +1,44 @@
+import { ethers } from "ethers";
+
+// Anvil's default chain id; the dev wallet is never offered anywhere else
+export const ANVIL_CHAIN_ID = 31337;
+
+// Mnemonic anvil derives its prefunded accounts from; public, never use it with real funds
+const ANVIL_MNEMONIC = "test test test test test test test test test test test junk";
+
+export const DEV_ACCOUNT_COUNT = 10;
+
+// Remembered in place of an EIP-6963 rdns, with the account index appended
+export const DEV_WALLET_ID = "anvil-dev";
+
+let devKeys: string[] | null = null;
+
+// Deriving from the mnemonic is slow, so the keys are derived once
+function getDevPrivateKeys(): string[] {
+  if (!devKeys) {
+    const root = ethers.utils.HDNode.fromMnemonic(ANVIL_MNEMONIC);
+    devKeys = Array.from({ length: DEV_ACCOUNT_COUNT }, (_, index) =>
+      root.derivePath(`m/44'/60'/0'/0/${index}`).privateKey
+    );
+  }
+  return devKeys;
+}
+
+export function getDevAccounts(): string[] {
+  return getDevPrivateKeys().map(key => ethers.utils.computeAddress(key));
+}
+
+export function getDevWallet(index: number, provider: ethers.providers.Provider): ethers.Wallet {
+  return new ethers.Wallet(getDevPrivateKeys()[index], provider);
+}
+
+export function getDevWalletId(index: number): string {
+  return `${DEV_WALLET_ID}:${index}`;
+}
+
+// Account index from a remembered wallet id, or null if it isn't a dev wallet
+export function parseDevWalletId(id: string | null): number | null {
+  const match = id?.match(new RegExp(`^${DEV_WALLET_ID}:(\\d+)$`));
+  const index = match ? Number(match[1]) : NaN;
+  return index >= 0 && index < DEV_ACCOUNT_COUNT ? index : null;
+}
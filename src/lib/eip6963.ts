@@ -0,0 +1,74 @@
+// EIP-1193 provider injected by a browser wallet
+export interface EIP1193Provider {
+  isMetaMask?: boolean;
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+  on: (event: string, callback: (...args: never[]) => void) => void;
+  removeListener: (event: string, callback: (...args: never[]) => void) => void;
+}
+
+// Metadata a wallet announces about itself (EIP-6963)
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // Data URI
+  rdns: string; // Reverse DNS id, stable across page loads, e.g. "io.metamask"
+}
+
+export interface WalletDetail {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+interface AnnounceProviderEvent extends Event {
+  detail: WalletDetail;
+}
+
+// Used when a wallet only injects window.ethereum without announcing itself
+const LEGACY_INJECTED_RDNS = "injected";
+
+const SELECTED_WALLET_KEY = "minidex:wallet";
+
+// Calls `onChange` with every wallet announced so far; returns a function that stops listening
+export function discoverWallets(onChange: (wallets: WalletDetail[]) => void) {
+  const wallets = new Map<string, WalletDetail>();
+
+  const onAnnounce = (event: Event) => {
+    const { detail } = event as AnnounceProviderEvent;
+    if (!detail?.info?.rdns || !detail.provider) return;
+    wallets.delete(LEGACY_INJECTED_RDNS);
+    wallets.set(detail.info.rdns, detail);
+    onChange(Array.from(wallets.values()));
+  };
+
+  window.addEventListener("eip6963:announceProvider", onAnnounce);
+  // Wallets that loaded before us announce again when asked
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+  // Older wallets never announce, so expose window.ethereum unless someone already claimed it
+  if (wallets.size === 0 && window.ethereum) {
+    wallets.set(LEGACY_INJECTED_RDNS, {
+      info: {
+        uuid: LEGACY_INJECTED_RDNS,
+        name: window.ethereum.isMetaMask ? "MetaMask" : "Browser Wallet",
+        icon: "",
+        rdns: LEGACY_INJECTED_RDNS
+      },
+      provider: window.ethereum
+    });
+    onChange(Array.from(wallets.values()));
+  }
+
+  return () => window.removeEventListener("eip6963:announceProvider", onAnnounce);
+}
+
+export function loadSelectedWallet(): string | null {
+  return localStorage.getItem(SELECTED_WALLET_KEY);
+}
+
+export function saveSelectedWallet(rdns: string | null) {
+  if (rdns) {
+    localStorage.setItem(SELECTED_WALLET_KEY, rdns);
+  } else {
+    localStorage.removeItem(SELECTED_WALLET_KEY);
+  }
+}
@@ -0,0 +1,275 @@
+import { ethers } from "ethers";
+
+export interface DecodedError {
+  // Raw revert string from the contract, e.g. "Router: EXPIRED"
+  reason: string | null;
+  message: string;
+  suggestion: string | null;
+  isUserRejection: boolean;
+}
+
+interface KnownReason {
+  message: string;
+  suggestion?: string;
+}
+
+// Revert strings used by Router, MiniDexPair and MiniDexFactory
+const KNOWN_REASONS: Record<string, KnownReason> = {
+  "Router: EXPIRED": {
+    message: "The transaction deadline passed before it was mined",
+    suggestion: "Increase the transaction deadline in settings and try again",
+  },
+  "Router: INSUFFICIENT_OUTPUT_AMOUNT": {
+    message: "The price moved and you would receive less than your minimum",
+    suggestion: "Increase your slippage tolerance or reduce the trade size",
+  },
+  "Router: EXCESSIVE_INPUT_AMOUNT": {
+    message: "The price moved and the swap would cost more than your maximum",
+    suggestion: "Increase your slippage tolerance or reduce the trade size",
+  },
+  "Router: INSUFFICIENT_A_AMOUNT": {
+    message: "The pool price moved beyond your slippage tolerance for the first token",
+    suggestion: "Increase your slippage tolerance or refresh the amounts",
+  },
+  "Router: INSUFFICIENT_B_AMOUNT": {
+    message: "The pool price moved beyond your slippage tolerance for the second token",
+    suggestion: "Increase your slippage tolerance or refresh the amounts",
+  },
+  "Router: INSUFFICIENT_INPUT_AMOUNT": {
+    message: "The input amount is too small",
+    suggestion: "Enter a larger amount",
+  },
+  "Router: INSUFFICIENT_LIQUIDITY": {
+    message: "The pool doesn't have enough liquidity for this trade",
+    suggestion: "Reduce the trade size or add liquidity to the pool",
+  },
+  "Router: PAIR_DOES_NOT_EXIST": {
+    message: "No pool exists for this token pair",
+    suggestion: "Create the pool first from the Create Pool tab",
+  },
+  "Router: INVALID_PATH": {
+    message: "The swap route is invalid",
+    suggestion: "Select two different tokens",
+  },
+  "MiniDex: K": {
+    message: "The swap would break the pool's constant product invariant",
+    suggestion: "Refresh the quote and try again",
+  },
+  "MiniDex: LOCKED": {
+    message: "The pool is busy with another operation",
+    suggestion: "Try again in a moment",
+  },
+  "MiniDex: INSUFFICIENT_LIQUIDITY": {
+    message: "The pool doesn't have enough liquidity for this trade",
+    suggestion: "Reduce the trade size or add liquidity to the pool",
+  },
+  "MiniDex: INSUFFICIENT_LIQUIDITY_MINTED": {
+    message: "The deposit is too small to mint any LP tokens",
+    suggestion: "Increase the amounts you deposit",
+  },
+  "MiniDex: INSUFFICIENT_LIQUIDITY_BURNED": {
+    message: "The withdrawal is too small to return any tokens",
+    suggestion: "Remove a larger share of your position",
+  },
+  "MiniDex: INSUFFICIENT_INPUT_AMOUNT": {
+    message: "The input amount is too small",
+    suggestion: "Enter a larger amount",
+  },
+  "MiniDex: INSUFFICIENT_OUTPUT_AMOUNT": {
+    message: "The trade would return nothing",
+    suggestion: "Enter a larger amount",
+  },
+  "MiniDex: INVALID_TO": {
+    message: "Tokens can't be sent to the pool's own token contracts",
+  },
+  "MiniDex: OVERFLOW": {
+    message: "The pool reserves would overflow",
+  },
+  "PAIR_EXISTS": {
+    message: "A pool for these tokens already exists",
+    suggestion: "Add liquidity to the existing pool instead",
+  },
+  "IDENTICAL_ADDRESSES": {
+    message: "A pool needs two different tokens",
+    suggestion: "Select two different tokens",
+  },
+  "ZERO_ADDRESS": {
+    message: "One of the token addresses is invalid",
+    suggestion: "Check the token addresses",
+  },
+};
+
+// Solidity Panic(uint256) codes, raised by the 0.8 checked arithmetic in SimpleERC20
+const PANIC_REASONS: Record<number, KnownReason> = {
+  0x01: { message: "An internal assertion failed" },
+  0x11: {
+    message: "The token balance or allowance is too low",
+    suggestion: "Check your balance and token approvals",
+  },
+  0x12: { message: "Division by zero in the contract" },
+};
+
+const ERROR_SELECTOR = ethers.utils.id("Error(string)").slice(0, 10);
+const PANIC_SELECTOR = ethers.utils.id("Panic(uint256)").slice(0, 10);
+
+// Revert strings as formatted by anvil, hardhat and the various wallet RPC errors
+const REASON_PATTERNS = [
+  /reverted with reason string '([^']+)'/,
+  /execution reverted: ([^"\n]+?)(?:"|\n|$)/,
+  /reason="([^"]+)"/,
+];
+
+// Wallets nest the RPC error at different depths, so every nested message and data field is collected
+function collectFields(error: unknown, depth = 0, fields: { messages: string[]; data: string[] } = { messages: [], data: [] }) {
+  if (depth > 5 || error === null || typeof error !== "object") return fields;
+
+  const record = error as Record<string, unknown>;
+  for (const key of ["reason", "message", "body"] as const) {
+    if (typeof record[key] === "string") fields.messages.push(record[key] as string);
+  }
+  if (typeof record.data === "string" && ethers.utils.isHexString(record.data)) {
+    fields.data.push(record.data);
+  }
+
+  for (const key of ["error", "data", "originalError", "cause"]) {
+    collectFields(record[key], depth + 1, fields);
+  }
+
+  // JSON-RPC bodies arrive as strings
+  if (typeof record.body === "string") {
+    try {
+      collectFields(JSON.parse(record.body), depth + 1, fields);
+    } catch {
+      // Not JSON
+    }
+  }
+
+  return fields;
+}
+
+function decodeRevertData(data: string): { reason: string } | { panic: number } | null {
+  try {
+    if (data.startsWith(ERROR_SELECTOR)) {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(["string"], ethers.utils.hexDataSlice(data, 4));
+      return { reason };
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(["uint256"], ethers.utils.hexDataSlice(data, 4));
+      return { panic: code.toNumber() };
+    }
+  } catch {
+    // Malformed revert data
+  }
+  return null;
+}
+
+function findKnownReason(text: string): string | null {
+  // Longest first, so "MiniDex: INSUFFICIENT_LIQUIDITY_MINTED" wins over "MiniDex: INSUFFICIENT_LIQUIDITY"
+  const reasons = Object.keys(KNOWN_REASONS).sort((a, b) => b.length - a.length);
+  return reasons.find(reason => text.includes(reason)) ?? null;
+}
+
+export function isUserRejection(error: unknown): boolean {
+  const record = (error ?? {}) as { code?: unknown; error?: { code?: unknown } };
+  return (
+    record.code === "ACTION_REJECTED" ||
+    record.code === 4001 ||
+    record.error?.code === 4001
+  );
+}
+
+function extractReason(error: unknown): { reason: string | null; panic: number | null } {
+  const { messages, data } = collectFields(error);
+
+  for (const hex of data) {
+    const decoded = decodeRevertData(hex);
+    if (decoded && "reason" in decoded) return { reason: decoded.reason, panic: null };
+    if (decoded && "panic" in decoded) return { reason: null, panic: decoded.panic };
+  }
+
+  for (const message of messages) {
+    const known = findKnownReason(message);
+    if (known) return { reason: known, panic: null };
+  }
+
+  for (const message of messages) {
+    for (const pattern of REASON_PATTERNS) {
+      const match = message.match(pattern);
+      if (match) return { reason: match[1].trim(), panic: null };
+    }
+  }
+
+  return { reason: null, panic: null };
+}
+
+function describeEthersError(error: unknown): KnownReason | null {
+  const code = (error as { code?: unknown })?.code;
+  switch (code) {
+    case ethers.errors.INSUFFICIENT_FUNDS:
+      return { message: "Not enough ETH to pay for gas", suggestion: "Top up the connected account" };
+    case ethers.errors.NETWORK_ERROR:
+    case ethers.errors.SERVER_ERROR:
+    case ethers.errors.TIMEOUT:
+      return { message: "Couldn't reach the network", suggestion: "Check your RPC connection and try again" };
+    case ethers.errors.NONCE_EXPIRED:
+    case ethers.errors.REPLACEMENT_UNDERPRICED:
+      return { message: "The wallet nonce is out of sync", suggestion: "Reset the account's activity in your wallet" };
+    case ethers.errors.TRANSACTION_REPLACED:
+      return { message: "The transaction was replaced in your wallet" };
+    case ethers.errors.CALL_EXCEPTION:
+      return { message: "The transaction reverted" };
+    case ethers.errors.UNPREDICTABLE_GAS_LIMIT:
+      return { message: "The transaction would fail" };
+    default:
+      return null;
+  }
+}
+
+// Turns an ethers/wallet error into a message for the user; `fallback` describes the failed action
+export function decodeError(error: unknown, fallback: string): DecodedError {
+  if (isUserRejection(error)) {
+    return { reason: null, message: "Request rejected in your wallet", suggestion: null, isUserRejection: true };
+  }
+
+  const { reason, panic } = extractReason(error);
+
+  if (reason) {
+    const known = KNOWN_REASONS[reason] ?? KNOWN_REASONS[findKnownReason(reason) ?? ""];
+    return {
+      reason,
+      message: known?.message ?? `${fallback}: ${reason}`,
+      suggestion: known?.suggestion ?? null,
+      isUserRejection: false,
+    };
+  }
+
+  if (panic !== null) {
+    const known = PANIC_REASONS[panic];
+    return {
+      reason: null,
+      message: known?.message ?? `${fallback}: the contract panicked (code ${panic})`,
+      suggestion: known?.suggestion ?? null,
+      isUserRejection: false,
+    };
+  }
+
+  const described = describeEthersError(error);
+  if (described) {
+    return {
+      reason: null,
+      message: `${fallback}: ${described.message.charAt(0).toLowerCase()}${described.message.slice(1)}`,
+      suggestion: described.suggestion ?? null,
+      isUserRejection: false,
+    };
+  }
+
+  // Errors thrown by our own code already read well
+  const message = error instanceof Error && !(error as { code?: unknown }).code ? error.message : fallback;
+  return { reason: null, message, suggestion: null, isUserRejection: false };
+}
+
+// Message plus suggested fix, for toasts and inline error panels
+export function getErrorMessage(error: unknown, fallback: string): string {
+  const { message, suggestion } = decodeError(error, fallback);
+  return suggestion ? `${message}. ${suggestion}.` : message;
+}
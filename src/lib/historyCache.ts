@@ -0,0 +1,60 @@
+// Minimal promise wrapper around the IndexedDB stores that hold data decoded from logs
+const DB_NAME = "minidex";
+const DB_VERSION = 3;
+
+// "pairHistory": per-pair Sync/Swap series; "indexer": the event indexer's per-factory store;
+// "routerApprovals": tokens each account has approved for the Router
+export type CacheStore = "pairHistory" | "indexer" | "routerApprovals";
+const STORES: CacheStore[] = ["pairHistory", "indexer", "routerApprovals"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user clears site data
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(
+  storeName: CacheStore,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+// The cache is an optimisation only, so failures (private browsing, quota) fall back to a full rescan
+export async function loadCachedHistory<T>(storeName: CacheStore, key: string): Promise<T | null> {
+  try {
+    return (await runRequest<T | undefined>(storeName, "readonly", store => store.get(key))) ?? null;
+  } catch (error) {
+    console.error(`Error reading the ${storeName} cache:`, error);
+    return null;
+  }
+}
+
+export async function saveCachedHistory<T>(storeName: CacheStore, key: string, value: T) {
+  try {
+    await runRequest(storeName, "readwrite", store => store.put(value, key));
+  } catch (error) {
+    console.error(`Error writing the ${storeName} cache:`, error);
+  }
+}
@@ -0,0 +1,277 @@
+import { ethers } from "ethers";
+import { miniDexFactoryAbi, miniDexPairAbi } from "@/contracts";
+import { Pool } from "@/hooks/usePools";
+import { LOG_BLOCK_WINDOW, findFirstLog } from "@/lib/poolEvents";
+import { fetchTimestamps } from "@/lib/pairHistory";
+
+const pairInterface = new ethers.utils.Interface(miniDexPairAbi);
+const factoryInterface = new ethers.utils.Interface(miniDexFactoryAbi);
+
+// Addresses are lowercased and amounts are raw decimal strings, so the store survives IndexedDB and JSON unchanged
+export type IndexedEvent =
+  | { type: "PairCreated"; logIndex: number; pair: string; token0: string; token1: string }
+  | {
+      type: "Swap";
+      logIndex: number;
+      pair: string;
+      sender: string;
+      to: string;
+      amount0In: string;
+      amount1In: string;
+      amount0Out: string;
+      amount1Out: string;
+    }
+  | { type: "Mint"; logIndex: number; pair: string; sender: string; amount0: string; amount1: string }
+  | { type: "Burn"; logIndex: number; pair: string; sender: string; to: string; amount0: string; amount1: string }
+  | { type: "Sync"; logIndex: number; pair: string; reserve0: string; reserve1: string };
+
+export interface IndexedBlock {
+  timestamp: number; // Unix seconds
+  events: IndexedEvent[]; // In log order
+}
+
+export interface IndexerStore {
+  fromBlock: number; // Block of the factory's first PairCreated, where the scan starts
+  lastBlock: number; // Last block scanned, inclusive
+  lastBlockHash: string; // Detects a reset chain, e.g. anvil restarted, under a still-valid block number
+  pairs: Record<string, { token0: string; token1: string; createdAt: number }>;
+  blocks: Record<number, IndexedBlock>; // Only blocks with at least one event, within the longest stats window
+}
+
+// Used when the node refuses the PairCreated lookup
+const INDEXER_FALLBACK_LOOKBACK = 100_000;
+
+async function findFirstPairBlock(
+  provider: ethers.providers.Provider,
+  factoryAddress: string,
+  startBlock: number,
+  latest: number
+): Promise<number> {
+  try {
+    const created = await findFirstLog(
+      provider,
+      { address: factoryAddress, topics: [factoryInterface.getEventTopic("PairCreated")] },
+      startBlock,
+      latest
+    );
+    // No pairs yet: start at the tip and pick the first one up on a later scan
+    return created?.blockNumber ?? latest;
+  } catch (error) {
+    console.error("Error finding the first pair, indexing recent blocks only:", error);
+  }
+  return Math.max(0, latest - INDEXER_FALLBACK_LOOKBACK);
+}
+
+function toIndexedEvent(log: ethers.providers.Log): IndexedEvent | null {
+  let event: ethers.utils.LogDescription;
+  try {
+    event = pairInterface.parseLog(log);
+  } catch {
+    // Another contract emitting an event with the same signature
+    return null;
+  }
+
+  const { args } = event;
+  const base = { logIndex: log.logIndex, pair: log.address.toLowerCase() };
+
+  if (event.name === "Swap") {
+    return {
+      ...base,
+      type: "Swap",
+      sender: args.sender.toLowerCase(),
+      to: args.to.toLowerCase(),
+      amount0In: args.amount0In.toString(),
+      amount1In: args.amount1In.toString(),
+      amount0Out: args.amount0Out.toString(),
+      amount1Out: args.amount1Out.toString()
+    };
+  }
+  if (event.name === "Mint") {
+    return { ...base, type: "Mint", sender: args.sender.toLowerCase(), amount0: args.amount0.toString(), amount1: args.amount1.toString() };
+  }
+  if (event.name === "Burn") {
+    return {
+      ...base,
+      type: "Burn",
+      sender: args.sender.toLowerCase(),
+      to: args.to.toLowerCase(),
+      amount0: args.amount0.toString(),
+      amount1: args.amount1.toString()
+    };
+  }
+  if (event.name === "Sync") {
+    return { ...base, type: "Sync", reserve0: args.reserve0.toString(), reserve1: args.reserve1.toString() };
+  }
+  return null;
+}
+
+// Extends `cached` (or starts from the factory's first pair at or after `startBlock`) with every PairCreated, Swap, Mint,
+// Burn and Sync up to the latest block; blocks older than the longest stats window are dropped
+export async function updateIndexerStore(
+  provider: ethers.providers.Provider,
+  factoryAddress: string,
+  cached: IndexerStore | null,
+  startBlock = 0
+): Promise<IndexerStore> {
+  const latestBlock = await provider.getBlock("latest");
+  const latest = latestBlock.number;
+
+  if (cached) {
+    const lastScanned = cached.lastBlock <= latest ? await provider.getBlock(cached.lastBlock) : null;
+    if (lastScanned?.hash !== cached.lastBlockHash) {
+      return updateIndexerStore(provider, factoryAddress, null, startBlock);
+    }
+  }
+
+  const fromBlock = cached?.fromBlock ?? await findFirstPairBlock(provider, factoryAddress, startBlock, latest);
+  const scanFrom = cached ? cached.lastBlock + 1 : fromBlock;
+
+  const pairs = { ...cached?.pairs };
+  const events = new Map<number, IndexedEvent[]>();
+  const addEvent = (blockNumber: number, event: IndexedEvent) => {
+    events.set(blockNumber, [...(events.get(blockNumber) ?? []), event]);
+  };
+
+  // Same OR-ed topics as the live subscription; logs from contracts that aren't our pairs are dropped below
+  const pairTopics = [(["Swap", "Mint", "Burn", "Sync"] as const).map(name => pairInterface.getEventTopic(name))];
+
+  for (let start = scanFrom; start <= latest; start += LOG_BLOCK_WINDOW) {
+    const range = { fromBlock: start, toBlock: Math.min(latest, start + LOG_BLOCK_WINDOW - 1) };
+    const [createdLogs, pairLogs] = await Promise.all([
+      provider.getLogs({ address: factoryAddress, topics: [factoryInterface.getEventTopic("PairCreated")], ...range }),
+      provider.getLogs({ topics: pairTopics, ...range })
+    ]);
+
+    // Register the window's new pairs first so their own events in the same window are kept
+    for (const log of createdLogs) {
+      const { args } = factoryInterface.parseLog(log);
+      const pair = args.pair.toLowerCase();
+      const token0 = args.token0.toLowerCase();
+      const token1 = args.token1.toLowerCase();
+      pairs[pair] = { token0, token1, createdAt: log.blockNumber };
+      addEvent(log.blockNumber, { type: "PairCreated", logIndex: log.logIndex, pair, token0, token1 });
+    }
+
+    for (const log of pairLogs) {
+      if (!pairs[log.address.toLowerCase()]) continue;
+      const event = toIndexedEvent(log);
+      if (event) addEvent(log.blockNumber, event);
+    }
+  }
+
+  const timestamps = await fetchTimestamps(provider, Array.from(events.keys()));
+  const blocks = { ...cached?.blocks };
+  for (const [blockNumber, blockEvents] of events) {
+    blocks[blockNumber] = {
+      timestamp: timestamps[blockNumber],
+      events: blockEvents.sort((a, b) => a.logIndex - b.logIndex)
+    };
+  }
+
+  // No stats window reaches further back, so the store stays bounded
+  const retainSince = latestBlock.timestamp - Math.max(...Object.values(STATS_WINDOWS).map(({ seconds }) => seconds));
+  for (const [blockNumber, block] of Object.entries(blocks)) {
+    if (block.timestamp < retainSince) delete blocks[Number(blockNumber)];
+  }
+
+  return {
+    fromBlock,
+    lastBlock: latest,
+    lastBlockHash: latestBlock.hash,
+    pairs,
+    blocks
+  };
+}
+
+export type StatsWindow = "24h" | "7d";
+
+export const STATS_WINDOWS: Record<StatsWindow, { label: string; seconds: number }> = {
+  "24h": { label: "24H", seconds: 24 * 60 * 60 },
+  "7d": { label: "7D", seconds: 7 * 24 * 60 * 60 },
+};
+
+// MiniDexPair keeps 3/1000 of every input amount for liquidity providers
+const FEE_NUMERATOR = 3;
+const FEE_DENOMINATOR = 1000;
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Values are in the quote token and null when a side of the pool has no price path to it
+export interface PoolStats {
+  tvl: number | null;
+  volume: number | null; // Input side of every swap in the window
+  fees: number | null; // 0.3% of that input
+  apr: number | null; // Fees over the window annualized against current reserves, in percent; null without liquidity
+  traders: number; // Distinct swap recipients in the window
+  swaps: number;
+}
+
+// Rolling stats of every pool over the `windowSeconds` ending at `now`, keyed by lowercased pair address
+export function getPoolStats(
+  store: IndexerStore,
+  pools: Pool[],
+  prices: Map<string, number>,
+  windowSeconds: number,
+  now: number = Math.floor(Date.now() / 1000)
+): Map<string, PoolStats> {
+  const since = now - windowSeconds;
+  const totals = new Map<string, { input0: ethers.BigNumber; input1: ethers.BigNumber; traders: Set<string>; swaps: number }>();
+
+  for (const block of Object.values(store.blocks)) {
+    if (block.timestamp < since || block.timestamp > now) continue;
+
+    for (const event of block.events) {
+      if (event.type !== "Swap") continue;
+
+      const total = totals.get(event.pair) ??
+        { input0: ethers.constants.Zero, input1: ethers.constants.Zero, traders: new Set<string>(), swaps: 0 };
+      total.input0 = total.input0.add(event.amount0In);
+      total.input1 = total.input1.add(event.amount1In);
+      // Intermediate hops of a routed trade pay out to the next pair, not a trader
+      if (!store.pairs[event.to]) total.traders.add(event.to);
+      total.swaps += 1;
+      totals.set(event.pair, total);
+    }
+  }
+
+  const stats = new Map<string, PoolStats>();
+
+  for (const pool of pools) {
+    const pairAddress = pool.pairAddress.toLowerCase();
+    const total = totals.get(pairAddress);
+    const input0 = parseFloat(ethers.utils.formatUnits(total?.input0 ?? 0, pool.token0Decimals));
+    const input1 = parseFloat(ethers.utils.formatUnits(total?.input1 ?? 0, pool.token1Decimals));
+    const reserve0 = parseFloat(pool.reserves[0]);
+    const reserve1 = parseFloat(pool.reserves[1]);
+
+    const price0 = prices.get(pool.token0Address.toLowerCase());
+    const price1 = prices.get(pool.token1Address.toLowerCase());
+    const isPriced = price0 !== undefined && price1 !== undefined;
+    const volume = isPriced ? input0 * price0 + input1 * price1 : null;
+
+    // APR is a ratio, so it is taken in the pool's own token1 units and works for unpriced pools too
+    const localPrice0 = reserve0 > 0 ? reserve1 / reserve0 : 0;
+    const localFees = (input0 * localPrice0 + input1) * FEE_NUMERATOR / FEE_DENOMINATOR;
+    const localTvl = reserve1 * 2;
+
+    stats.set(pairAddress, {
+      tvl: isPriced ? reserve0 * price0 + reserve1 * price1 : null,
+      volume,
+      fees: volume === null ? null : volume * FEE_NUMERATOR / FEE_DENOMINATOR,
+      apr: localTvl > 0 ? localFees / localTvl * (SECONDS_PER_YEAR / windowSeconds) * 100 : null,
+      traders: total?.traders.size ?? 0,
+      swaps: total?.swaps ?? 0
+    });
+  }
+
+  return stats;
+}
+
+// Lowercased addresses of the `count` pools with the most value locked, for "top pool" badges
+export function getTopPoolsByTvl(stats: Map<string, PoolStats> | null, count: number): Set<string> {
+  return new Set(Array.from(stats ?? [])
+    .filter(([, poolStats]) => (poolStats.tvl ?? 0) > 0)
+    .sort(([, a], [, b]) => b.tvl! - a.tvl!)
+    .slice(0, count)
+    .map(([pairAddress]) => pairAddress));
+}
@@ -0,0 +1,140 @@
+import { BigNumber, ethers } from "ethers";
+import { Token, TokenAmount, scaleTokenAmount, tokenAmount, zeroAmount } from "@/lib/tokenAmount";
+
+// LP tokens minted by MiniDexPair always use 18 decimals
+export const LP_TOKEN_DECIMALS = 18;
+
+// Burned to the zero address on a pair's first mint (MiniDexPair.MINIMUM_LIQUIDITY)
+export const MINIMUM_LIQUIDITY = BigNumber.from(1000);
+
+// Underlying amounts returned by MiniDexPair.burn for a given amount of LP tokens
+export function getRemoveLiquidityAmounts(
+  liquidity: BigNumber,
+  reserve0: TokenAmount,
+  reserve1: TokenAmount,
+  totalSupply: BigNumber
+): [TokenAmount, TokenAmount] {
+  if (totalSupply.isZero()) {
+    return [zeroAmount(reserve0.token), zeroAmount(reserve1.token)];
+  }
+
+  return [
+    scaleTokenAmount(reserve0, liquidity, totalSupply),
+    scaleTokenAmount(reserve1, liquidity, totalSupply)
+  ];
+}
+
+// Amounts Router._addLiquidity will actually pull, given the current reserves in A/B order
+export function quoteAddLiquidityAmounts(
+  amountADesired: TokenAmount,
+  amountBDesired: TokenAmount,
+  reserveA: BigNumber,
+  reserveB: BigNumber
+): [TokenAmount, TokenAmount] {
+  if (reserveA.isZero() && reserveB.isZero()) {
+    return [amountADesired, amountBDesired];
+  }
+
+  const amountBOptimal = tokenAmount(amountBDesired.token, amountADesired.raw.mul(reserveB).div(reserveA));
+  if (amountBOptimal.raw.lte(amountBDesired.raw)) {
+    return [amountADesired, amountBOptimal];
+  }
+
+  const amountAOptimal = tokenAmount(amountADesired.token, amountBDesired.raw.mul(reserveA).div(reserveB));
+  return [amountAOptimal, amountBDesired];
+}
+
+// Router.quote: the amount of the other token that matches `amount` at the current reserve ratio
+export function quoteLiquidityAmount(
+  amount: TokenAmount,
+  reserveIn: BigNumber,
+  reserveOut: BigNumber,
+  tokenOut: Token
+): TokenAmount {
+  if (reserveIn.isZero()) return zeroAmount(tokenOut);
+  return tokenAmount(tokenOut, amount.raw.mul(reserveOut).div(reserveIn));
+}
+
+// Integer square root rounded down, matching the contracts' Math.sqrt
+export function sqrt(value: BigNumber): BigNumber {
+  if (value.lte(3)) return value.isZero() ? value : BigNumber.from(1);
+
+  let z = value;
+  let x = value.div(2).add(1);
+  while (x.lt(z)) {
+    z = x;
+    x = value.div(x).add(x).div(2);
+  }
+  return z;
+}
+
+// LP tokens MiniDexPair.mint issues for a deposit, with everything in A/B order
+export function getLiquidityMinted(
+  amountA: BigNumber,
+  amountB: BigNumber,
+  reserveA: BigNumber,
+  reserveB: BigNumber,
+  totalSupply: BigNumber
+): BigNumber {
+  if (totalSupply.isZero()) {
+    const root = sqrt(amountA.mul(amountB));
+    return root.gt(MINIMUM_LIQUIDITY) ? root.sub(MINIMUM_LIQUIDITY) : BigNumber.from(0);
+  }
+
+  if (reserveA.isZero() || reserveB.isZero()) return BigNumber.from(0);
+
+  const liquidityA = amountA.mul(totalSupply).div(reserveA);
+  const liquidityB = amountB.mul(totalSupply).div(reserveB);
+  return liquidityA.lt(liquidityB) ? liquidityA : liquidityB;
+}
+
+// Percentage of the LP supply `liquidity` represents once minted; the first mint also locks MINIMUM_LIQUIDITY
+export function getPoolShare(liquidity: BigNumber, totalSupply: BigNumber): number {
+  const supplyAfter = totalSupply.add(liquidity).add(totalSupply.isZero() ? MINIMUM_LIQUIDITY : 0);
+  if (liquidity.isZero()) return 0;
+
+  return liquidity.mul(1_000_000).div(supplyAfter).toNumber() / 10_000;
+}
+
+// Units of B per unit of A implied by two amounts, e.g. a deposit or the reserves
+export function getPrice(amountA: TokenAmount, amountB: TokenAmount): number {
+  const a = parseFloat(ethers.utils.formatUnits(amountA.raw, amountA.token.decimals));
+  const b = parseFloat(ethers.utils.formatUnits(amountB.raw, amountB.token.decimals));
+  return a > 0 ? b / a : 0;
+}
+
+export interface AddLiquidityPreview {
+  // No reserves yet: the deposit ratio sets the price and both amounts are used as typed
+  isInitialDeposit: boolean;
+  price: number | null; // B per A; null until an initial deposit has both amounts
+  liquidity: TokenAmount; // Expected LP tokens
+  poolShare: number; // Percent of the LP supply after the deposit
+}
+
+// Expected outcome of depositing the typed amounts into a pair with the given A/B reserves
+export function getAddLiquidityPreview(
+  amountA: TokenAmount | null,
+  amountB: TokenAmount | null,
+  reserveA: TokenAmount,
+  reserveB: TokenAmount,
+  totalSupply: BigNumber,
+  lpToken: Token
+): AddLiquidityPreview {
+  const isInitialDeposit = reserveA.raw.isZero() && reserveB.raw.isZero();
+  const hasAmounts = !!amountA && !!amountB && !amountA.raw.isZero() && !amountB.raw.isZero();
+
+  let liquidity = BigNumber.from(0);
+  if (hasAmounts) {
+    const [usedA, usedB] = quoteAddLiquidityAmounts(amountA, amountB, reserveA.raw, reserveB.raw);
+    liquidity = getLiquidityMinted(usedA.raw, usedB.raw, reserveA.raw, reserveB.raw, totalSupply);
+  }
+
+  return {
+    isInitialDeposit,
+    price: isInitialDeposit
+      ? (hasAmounts ? getPrice(amountA, amountB) : null)
+      : getPrice(reserveA, reserveB),
+    liquidity: tokenAmount(lpToken, liquidity),
+    poolShare: getPoolShare(liquidity, totalSupply)
+  };
+}
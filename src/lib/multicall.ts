@@ -0,0 +1,139 @@
+import { ethers } from "ethers";
+import { getDeployment } from "@/constants/deployments";
+import { getMulticall } from "@/contracts";
+
+// Keeps each aggregate call well below anvil's default gas cap
+const MAX_CALLS_PER_BATCH = 500;
+
+interface PendingCall {
+  target: string;
+  callData: string;
+  resolve: (returnData: string) => void;
+  reject: (error: Error) => void;
+}
+
+interface Batcher {
+  queue: PendingCall[];
+  scheduled: boolean;
+  // Resolves to null on chains where the Multicall contract isn't deployed
+  multicallAddress: Promise<string | null> | null;
+}
+
+const batchers = new WeakMap<ethers.providers.Provider, Batcher>();
+
+function getBatcher(provider: ethers.providers.Provider): Batcher {
+  let batcher = batchers.get(provider);
+  if (!batcher) {
+    batcher = { queue: [], scheduled: false, multicallAddress: null };
+    batchers.set(provider, batcher);
+  }
+  return batcher;
+}
+
+async function resolveMulticallAddress(provider: ethers.providers.Provider): Promise<string | null> {
+  const { chainId } = await provider.getNetwork();
+  const address = getDeployment(chainId)?.multicall;
+  if (!address) return null;
+
+  const code = await provider.getCode(address);
+  return code !== "0x" ? address : null;
+}
+
+function getMulticallAddress(provider: ethers.providers.Provider, batcher: Batcher) {
+  if (!batcher.multicallAddress) {
+    batcher.multicallAddress = resolveMulticallAddress(provider).catch(() => null);
+  }
+  return batcher.multicallAddress;
+}
+
+async function callDirectly(provider: ethers.providers.Provider, calls: PendingCall[]) {
+  await Promise.all(
+    calls.map(call =>
+      provider
+        .call({ to: call.target, data: call.callData })
+        .then(call.resolve, call.reject)
+    )
+  );
+}
+
+async function callAggregate(provider: ethers.providers.Provider, multicallAddress: string, calls: PendingCall[]) {
+  const multicall = getMulticall(multicallAddress, provider);
+
+  const results: { success: boolean; returnData: string }[] = await multicall.callStatic.tryAggregate(
+    false,
+    calls.map(({ target, callData }) => ({ target, callData }))
+  );
+
+  results.forEach((result, i) => {
+    if (result.success) {
+      calls[i].resolve(result.returnData);
+    } else {
+      calls[i].reject(new Error(`Multicall: call to ${calls[i].target} reverted`));
+    }
+  });
+}
+
+async function flush(provider: ethers.providers.Provider, batcher: Batcher) {
+  const calls = batcher.queue;
+  batcher.queue = [];
+  batcher.scheduled = false;
+
+  const multicallAddress = await getMulticallAddress(provider, batcher);
+
+  // A single call gains nothing from the aggregator
+  if (calls.length === 1 || !multicallAddress) {
+    await callDirectly(provider, calls);
+    return;
+  }
+
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_BATCH) {
+    const chunk = calls.slice(i, i + MAX_CALLS_PER_BATCH);
+    try {
+      await callAggregate(provider, multicallAddress, chunk);
+    } catch (error) {
+      console.error("Multicall batch failed, retrying calls individually:", error);
+      await callDirectly(provider, chunk);
+    }
+  }
+}
+
+// Queues a raw eth_call; every call queued within the same tick goes out as one aggregate call
+export function batchCall(
+  provider: ethers.providers.Provider,
+  target: string,
+  callData: string
+): Promise<string> {
+  const batcher = getBatcher(provider);
+
+  const result = new Promise<string>((resolve, reject) => {
+    batcher.queue.push({ target, callData, resolve, reject });
+  });
+
+  if (!batcher.scheduled) {
+    batcher.scheduled = true;
+    setTimeout(() => flush(provider, batcher), 0);
+  }
+
+  return result;
+}
+
+type ViewFunction<C extends ethers.Contract, M extends keyof C["callStatic"]> =
+  Extract<C["callStatic"][M], (...args: never[]) => Promise<unknown>>;
+
+// Batched equivalent of `contract.method(...args)` for view functions; typed by the generated bindings
+export async function multicall<C extends ethers.Contract, M extends keyof C["callStatic"] & string>(
+  contract: C,
+  method: M,
+  ...args: Parameters<ViewFunction<C, M>>
+): Promise<Awaited<ReturnType<ViewFunction<C, M>>>> {
+  const fragment = contract.interface.getFunction(method);
+  const returnData = await batchCall(
+    contract.provider,
+    contract.address,
+    contract.interface.encodeFunctionData(fragment, args)
+  );
+
+  const decoded = contract.interface.decodeFunctionResult(fragment, returnData);
+  // Unwrap single return values the same way ethers.Contract does
+  return decoded.length === 1 ? decoded[0] : decoded;
+}
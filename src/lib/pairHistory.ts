@@ -0,0 +1,212 @@
+import { ethers } from "ethers";
+import { miniDexFactoryAbi, miniDexPairAbi } from "@/contracts";
+import { LOG_BLOCK_WINDOW, findFirstLog } from "@/lib/poolEvents";
+
+const pairInterface = new ethers.utils.Interface(miniDexPairAbi);
+const factoryInterface = new ethers.utils.Interface(miniDexFactoryAbi);
+
+// Amounts are raw decimal strings so the history survives IndexedDB and JSON unchanged
+interface SyncRecord {
+  blockNumber: number;
+  reserve0: string;
+  reserve1: string;
+}
+
+interface SwapRecord {
+  blockNumber: number;
+  volume1: string; // Token1 side of the trade, in or out
+}
+
+export interface PairHistory {
+  fromBlock: number; // Block the pair was created in, where the scan starts
+  lastBlock: number; // Last block scanned, inclusive
+  lastBlockHash: string; // Detects a reset chain, e.g. anvil restarted, under a still-valid block number
+  syncs: SyncRecord[];
+  swaps: SwapRecord[];
+  timestamps: Record<number, number>; // Unix seconds of every block referenced above
+}
+
+// Used when the node refuses the PairCreated lookup
+const HISTORY_FALLBACK_LOOKBACK = 100_000;
+
+// Blocks fetched in parallel when resolving timestamps
+const TIMESTAMP_BATCH_SIZE = 25;
+
+async function findCreationBlock(
+  provider: ethers.providers.Provider,
+  factoryAddress: string,
+  pairAddress: string,
+  token0: string,
+  token1: string,
+  startBlock: number,
+  latest: number
+): Promise<number> {
+  try {
+    const created = await findFirstLog(
+      provider,
+      {
+        address: factoryAddress,
+        topics: [
+          factoryInterface.getEventTopic("PairCreated"),
+          ethers.utils.hexZeroPad(token0, 32),
+          ethers.utils.hexZeroPad(token1, 32)
+        ]
+      },
+      startBlock,
+      latest,
+      log => factoryInterface.parseLog(log).args.pair.toLowerCase() === pairAddress.toLowerCase()
+    );
+    if (created) return created.blockNumber;
+  } catch (error) {
+    console.error("Error finding pair creation block, scanning recent blocks only:", error);
+  }
+  return Math.max(0, latest - HISTORY_FALLBACK_LOOKBACK);
+}
+
+// Unix seconds of each block, fetched a batch at a time
+export async function fetchTimestamps(provider: ethers.providers.Provider, blockNumbers: number[]) {
+  const timestamps: Record<number, number> = {};
+
+  for (let i = 0; i < blockNumbers.length; i += TIMESTAMP_BATCH_SIZE) {
+    await Promise.all(blockNumbers.slice(i, i + TIMESTAMP_BATCH_SIZE).map(async (blockNumber) => {
+      timestamps[blockNumber] = (await provider.getBlock(blockNumber)).timestamp;
+    }));
+  }
+
+  return timestamps;
+}
+
+// Extends `cached` (or starts from the pair's creation, looked up from `startBlock`) with every Sync and Swap up to the latest block
+export async function updatePairHistory(
+  provider: ethers.providers.Provider,
+  factoryAddress: string,
+  pair: { pairAddress: string; token0: string; token1: string },
+  cached: PairHistory | null,
+  startBlock = 0
+): Promise<PairHistory> {
+  const latestBlock = await provider.getBlock("latest");
+  const latest = latestBlock.number;
+
+  if (cached) {
+    const lastScanned = cached.lastBlock <= latest ? await provider.getBlock(cached.lastBlock) : null;
+    if (lastScanned?.hash !== cached.lastBlockHash) {
+      return updatePairHistory(provider, factoryAddress, pair, null, startBlock);
+    }
+  }
+
+  const fromBlock = cached?.fromBlock ??
+    await findCreationBlock(provider, factoryAddress, pair.pairAddress, pair.token0, pair.token1, startBlock, latest);
+  const scanFrom = cached ? cached.lastBlock + 1 : fromBlock;
+
+  const topics = [(["Sync", "Swap"] as const).map(name => pairInterface.getEventTopic(name))];
+  const syncs: SyncRecord[] = [];
+  const swaps: SwapRecord[] = [];
+
+  for (let start = scanFrom; start <= latest; start += LOG_BLOCK_WINDOW) {
+    const logs = await provider.getLogs({
+      address: pair.pairAddress,
+      topics,
+      fromBlock: start,
+      toBlock: Math.min(latest, start + LOG_BLOCK_WINDOW - 1)
+    });
+
+    for (const log of logs) {
+      const event = pairInterface.parseLog(log);
+      if (event.name === "Sync") {
+        syncs.push({
+          blockNumber: log.blockNumber,
+          reserve0: event.args.reserve0.toString(),
+          reserve1: event.args.reserve1.toString()
+        });
+      } else {
+        swaps.push({
+          blockNumber: log.blockNumber,
+          volume1: event.args.amount1In.add(event.args.amount1Out).toString()
+        });
+      }
+    }
+  }
+
+  const newBlocks = Array.from(new Set([...syncs, ...swaps].map(record => record.blockNumber)));
+  const timestamps = await fetchTimestamps(provider, newBlocks);
+
+  return {
+    fromBlock,
+    lastBlock: latest,
+    lastBlockHash: latestBlock.hash,
+    syncs: [...(cached?.syncs ?? []), ...syncs],
+    swaps: [...(cached?.swaps ?? []), ...swaps],
+    timestamps: { ...cached?.timestamps, ...timestamps }
+  };
+}
+
+export type HistoryInterval = "5m" | "1h" | "1d" | "1w";
+
+export const HISTORY_INTERVALS: Record<HistoryInterval, { label: string; seconds: number }> = {
+  "5m": { label: "5m", seconds: 5 * 60 },
+  "1h": { label: "1H", seconds: 60 * 60 },
+  "1d": { label: "1D", seconds: 24 * 60 * 60 },
+  "1w": { label: "1W", seconds: 7 * 24 * 60 * 60 },
+};
+
+// Everything is in token1 units: price is token1 per token0, TVL values both sides at that price
+export interface HistoryPoint {
+  time: number; // Unix seconds at the start of the bucket
+  price: number;
+  tvl: number;
+  volume: number;
+}
+
+// Charts stay readable and cheap to render with at most this many buckets
+const MAX_HISTORY_POINTS = 200;
+
+// Buckets the raw history; price and TVL are the last state in each bucket, carried forward through quiet ones
+export function bucketPairHistory(
+  history: PairHistory,
+  decimals0: number,
+  decimals1: number,
+  interval: HistoryInterval,
+  now: number = Math.floor(Date.now() / 1000)
+): HistoryPoint[] {
+  if (history.syncs.length === 0) return [];
+
+  const { seconds } = HISTORY_INTERVALS[interval];
+  const timeOf = (record: { blockNumber: number }) => history.timestamps[record.blockNumber] ?? 0;
+  const toFloat = (raw: string, decimals: number) => parseFloat(ethers.utils.formatUnits(raw, decimals));
+
+  const end = Math.floor(Math.max(now, timeOf(history.syncs[history.syncs.length - 1])) / seconds) * seconds;
+  const first = Math.floor(timeOf(history.syncs[0]) / seconds) * seconds;
+  const start = Math.max(first, end - (MAX_HISTORY_POINTS - 1) * seconds);
+
+  const points: HistoryPoint[] = [];
+  let syncIndex = 0;
+  let swapIndex = 0;
+  let reserves: SyncRecord | null = null;
+
+  for (let time = start; time <= end; time += seconds) {
+    const bucketEnd = time + seconds;
+
+    while (syncIndex < history.syncs.length && timeOf(history.syncs[syncIndex]) < bucketEnd) {
+      reserves = history.syncs[syncIndex++];
+    }
+
+    let volume = 0;
+    while (swapIndex < history.swaps.length && timeOf(history.swaps[swapIndex]) < bucketEnd) {
+      const swap = history.swaps[swapIndex++];
+      if (timeOf(swap) >= time) volume += toFloat(swap.volume1, decimals1);
+    }
+
+    if (!reserves) continue;
+
+    const reserve0 = toFloat(reserves.reserve0, decimals0);
+    const reserve1 = toFloat(reserves.reserve1, decimals1);
+    points.push({
+      time,
+      price: reserve0 > 0 ? reserve1 / reserve0 : 0,
+      tvl: reserve1 * 2,
+      volume
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import { miniDexFactoryAbi, miniDexPairAbi } from "@/contracts";
+
+const pairInterface = new ethers.utils.Interface(miniDexPairAbi);
+const factoryInterface = new ethers.utils.Interface(miniDexFactoryAbi);
+
+export type PairEventName = "Sync" | "Swap" | "Mint" | "Burn";
+
+export interface PoolEventHandlers {
+  onSync?: (pairAddress: string, reserve0: ethers.BigNumber, reserve1: ethers.BigNumber, log: ethers.providers.Log) => void;
+  // Decoded Swap, Mint and Burn events; every one of them is followed by a Sync from the same pair
+  onPairEvent?: (pairAddress: string, event: ethers.utils.LogDescription, log: ethers.providers.Log) => void;
+  onPairCreated?: (pairAddress: string, token0: string, token1: string, log: ethers.providers.Log) => void;
+}
+
+// Subscribes to pair events from any address plus PairCreated from the factory; returns an unsubscribe function
+export function subscribePoolEvents(
+  provider: ethers.providers.Provider,
+  factoryAddress: string,
+  handlers: PoolEventHandlers
+) {
+  const pairEvents: PairEventName[] = ["Sync", "Swap", "Mint", "Burn"];
+
+  // One filter with OR-ed topics, so a single getLogs poll covers every pair
+  const pairFilter = {
+    topics: [pairEvents.map(name => pairInterface.getEventTopic(name))]
+  };
+
+  const pairCreatedFilter = {
+    address: factoryAddress,
+    topics: [factoryInterface.getEventTopic("PairCreated")]
+  };
+
+  const onPairLog = (log: ethers.providers.Log) => {
+    let event: ethers.utils.LogDescription;
+    try {
+      event = pairInterface.parseLog(log);
+    } catch {
+      // Another contract emitting an event with the same signature
+      return;
+    }
+
+    if (event.name === "Sync") {
+      handlers.onSync?.(log.address, event.args.reserve0, event.args.reserve1, log);
+    } else {
+      handlers.onPairEvent?.(log.address, event, log);
+    }
+  };
+
+  const onPairCreatedLog = (log: ethers.providers.Log) => {
+    const event = factoryInterface.parseLog(log);
+    handlers.onPairCreated?.(event.args.pair, event.args.token0, event.args.token1, log);
+  };
+
+  provider.on(pairFilter, onPairLog);
+  provider.on(pairCreatedFilter, onPairCreatedLog);
+
+  return () => {
+    provider.off(pairFilter, onPairLog);
+    provider.off(pairCreatedFilter, onPairCreatedLog);
+  };
+}
+
+export type PairActivityType = Exclude<PairEventName, "Sync">;
+
+export interface PairActivity {
+  type: PairActivityType;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  sender: string;
+  to: string | null; // Swap and Burn only
+  // Net flow into the pair: positive when tokens go in, negative when they come out
+  amount0: ethers.BigNumber;
+  amount1: ethers.BigNumber;
+}
+
+// Public RPCs cap the block range of a single eth_getLogs
+export const LOG_BLOCK_WINDOW = 5_000;
+const ACTIVITY_MAX_LOOKBACK = 100_000;
+
+// Earliest log matching `filter` and `match` in [fromBlock, toBlock], scanning forward a window at a time; null if none
+export async function findFirstLog(
+  provider: ethers.providers.Provider,
+  filter: ethers.providers.Filter,
+  fromBlock: number,
+  toBlock: number,
+  match: (log: ethers.providers.Log) => boolean = () => true
+): Promise<ethers.providers.Log | null> {
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_WINDOW) {
+    const logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: Math.min(toBlock, start + LOG_BLOCK_WINDOW - 1) });
+    const found = logs.find(match);
+    if (found) return found;
+  }
+  return null;
+}
+
+function toPairActivity(log: ethers.providers.Log): PairActivity | null {
+  let event: ethers.utils.LogDescription;
+  try {
+    event = pairInterface.parseLog(log);
+  } catch {
+    return null;
+  }
+
+  const { args } = event;
+  const base = { blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash, sender: args.sender };
+
+  if (event.name === "Swap") {
+    return {
+      ...base,
+      type: "Swap",
+      to: args.to,
+      amount0: args.amount0In.sub(args.amount0Out),
+      amount1: args.amount1In.sub(args.amount1Out)
+    };
+  }
+  if (event.name === "Mint") {
+    return { ...base, type: "Mint", to: null, amount0: args.amount0, amount1: args.amount1 };
+  }
+  if (event.name === "Burn") {
+    return { ...base, type: "Burn", to: args.to, amount0: args.amount0.mul(-1), amount1: args.amount1.mul(-1) };
+  }
+  return null;
+}
+
+// The most recent Swap, Mint and Burn events of a pair, newest first; scans back in windows until `limit` are found
+export async function fetchPairActivity(
+  provider: ethers.providers.Provider,
+  pairAddress: string,
+  limit: number
+): Promise<PairActivity[]> {
+  const topics = [(["Swap", "Mint", "Burn"] as const).map(name => pairInterface.getEventTopic(name))];
+  const latest = await provider.getBlockNumber();
+  const oldest = Math.max(0, latest - ACTIVITY_MAX_LOOKBACK);
+  const activity: PairActivity[] = [];
+
+  for (let toBlock = latest; toBlock >= oldest && activity.length < limit; toBlock -= LOG_BLOCK_WINDOW) {
+    const fromBlock = Math.max(oldest, toBlock - LOG_BLOCK_WINDOW + 1);
+    const logs = await provider.getLogs({ address: pairAddress, topics, fromBlock, toBlock });
+
+    const decoded = logs
+      .map(toPairActivity)
+      .filter((entry): entry is PairActivity => entry !== null)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+    activity.push(...decoded);
+  }
+
+  return activity.slice(0, limit);
+}
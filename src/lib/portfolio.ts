@@ -0,0 +1,70 @@
+import { ethers } from "ethers";
+import { Pool } from "@/hooks/usePools";
+import { buildTokenGraph } from "@/lib/routing";
+import { Token, TokenAmount } from "@/lib/tokenAmount";
+
+// Spot price of every token reachable from `quoteToken`, in units of the quote token, keyed by lowercased address.
+// Walks the pool graph breadth-first so each price comes from the fewest hops; display only, ignores fees and depth.
+export function getSpotPrices(pools: Pool[], quoteToken: string): Map<string, number> {
+  const graph = buildTokenGraph(pools);
+  const prices = new Map<string, number>([[quoteToken.toLowerCase(), 1]]);
+  const queue = [quoteToken.toLowerCase()];
+
+  while (queue.length > 0) {
+    const token = queue.shift()!;
+    const price = prices.get(token)!;
+
+    for (const hop of graph.get(token) || []) {
+      const next = hop.tokenOut.toLowerCase();
+      if (prices.has(next) || hop.reserveIn.isZero() || hop.reserveOut.isZero()) continue;
+
+      const reserveIn = parseFloat(ethers.utils.formatUnits(hop.reserveIn, hop.decimalsIn));
+      const reserveOut = parseFloat(ethers.utils.formatUnits(hop.reserveOut, hop.decimalsOut));
+      prices.set(next, price * reserveIn / reserveOut);
+      queue.push(next);
+    }
+  }
+
+  return prices;
+}
+
+// Value of an amount in the quote token, or null when no pool path prices it
+export function getValue(amount: TokenAmount, prices: Map<string, number>): number | null {
+  const price = prices.get(amount.token.address.toLowerCase());
+  if (price === undefined) return null;
+
+  return parseFloat(ethers.utils.formatUnits(amount.raw, amount.token.decimals)) * price;
+}
+
+// Every token that appears in at least one pool, in first-seen order
+export function getPoolTokens(pools: Pool[]): Token[] {
+  const tokens = new Map<string, Token>();
+
+  for (const pool of pools) {
+    const pair: Token[] = [
+      { address: pool.token0Address, symbol: pool.token0Symbol, decimals: pool.token0Decimals },
+      { address: pool.token1Address, symbol: pool.token1Symbol, decimals: pool.token1Decimals }
+    ];
+    for (const token of pair) {
+      if (!tokens.has(token.address.toLowerCase())) tokens.set(token.address.toLowerCase(), token);
+    }
+  }
+
+  return Array.from(tokens.values());
+}
+
+// The token paired in the most pools, a sensible default for valuing pools against each other
+export function getMostConnectedToken(pools: Pool[]): Token | null {
+  const counts = new Map<string, number>();
+  for (const pool of pools) {
+    for (const address of [pool.token0Address, pool.token1Address]) {
+      counts.set(address.toLowerCase(), (counts.get(address.toLowerCase()) ?? 0) + 1);
+    }
+  }
+
+  let best: Token | null = null;
+  for (const token of getPoolTokens(pools)) {
+    if (!best || counts.get(token.address.toLowerCase())! > counts.get(best.address.toLowerCase())!) best = token;
+  }
+  return best;
+}
@@ -0,0 +1,76 @@
+import { BigNumber, ethers } from "ethers";
+import { Route } from "@/lib/routing";
+import { TokenAmount, tokenAmount } from "@/lib/tokenAmount";
+
+// Each hop keeps 0.3% of its input for liquidity providers (997/1000 in MiniDexPair)
+const FEE_NUMERATOR = 997;
+const FEE_DENOMINATOR = 1000;
+
+// Impact thresholds in percent for the warning colour tiers
+export const PRICE_IMPACT_LOW = 1;
+export const PRICE_IMPACT_MEDIUM = 5;
+// Above this the swap needs an explicit confirmation
+export const PRICE_IMPACT_HIGH = 15;
+
+export type PriceImpactSeverity = "none" | "low" | "medium" | "high";
+
+export interface TradeBreakdown {
+  midPrice: number; // Output tokens per input token at current reserves
+  executionPrice: number; // Output tokens per input token actually received
+  priceImpact: number; // Percent, excluding the LP fee
+  lpFee: TokenAmount; // Paid in the input token across every hop
+}
+
+function toFloat(value: BigNumber, decimals: number) {
+  return parseFloat(ethers.utils.formatUnits(value, decimals));
+}
+
+// Spot price along the route, chained hop by hop from the pool reserves
+export function getMidPrice(route: Route): number {
+  return route.hops.reduce(
+    (price, hop) => price * (toFloat(hop.reserveOut, hop.decimalsOut) / toFloat(hop.reserveIn, hop.decimalsIn)),
+    1
+  );
+}
+
+// Fee charged on the input of a multi-hop trade: input * (1 - 0.997^hops)
+export function getLpFee(route: Route, inputAmount: TokenAmount): TokenAmount {
+  const hops = route.hops.length;
+  const denominator = BigNumber.from(FEE_DENOMINATOR).pow(hops);
+  const retained = BigNumber.from(FEE_NUMERATOR).pow(hops);
+
+  return tokenAmount(
+    inputAmount.token,
+    inputAmount.raw.mul(denominator.sub(retained)).div(denominator)
+  );
+}
+
+export function getTradeBreakdown(
+  route: Route,
+  inputAmount: TokenAmount,
+  outputAmount: TokenAmount
+): TradeBreakdown | null {
+  if (inputAmount.raw.isZero() || outputAmount.raw.isZero()) return null;
+
+  const midPrice = getMidPrice(route);
+  const executionPrice =
+    toFloat(outputAmount.raw, outputAmount.token.decimals) / toFloat(inputAmount.raw, inputAmount.token.decimals);
+
+  // Compare against the mid price net of fees, so the impact only reflects the reserve shift
+  const feeFactor = Math.pow(FEE_NUMERATOR / FEE_DENOMINATOR, route.hops.length);
+  const priceImpact = Math.max(0, (1 - executionPrice / (midPrice * feeFactor)) * 100);
+
+  return {
+    midPrice,
+    executionPrice,
+    priceImpact,
+    lpFee: getLpFee(route, inputAmount)
+  };
+}
+
+export function getPriceImpactSeverity(priceImpact: number): PriceImpactSeverity {
+  if (priceImpact >= PRICE_IMPACT_HIGH) return "high";
+  if (priceImpact >= PRICE_IMPACT_MEDIUM) return "medium";
+  if (priceImpact >= PRICE_IMPACT_LOW) return "low";
+  return "none";
+}
@@ -0,0 +1,239 @@
+import { BigNumber } from "ethers";
+import { Pool } from "@/hooks/usePools";
+import { Token } from "@/lib/tokenAmount";
+
+// Longest path (in pairs) the route finder will consider
+export const MAX_HOPS = 3;
+
+// Whether the user fixed the amount they pay or the amount they receive
+export type TradeType = "exactIn" | "exactOut";
+
+export interface RouteHop {
+  pairAddress: string;
+  tokenIn: string;
+  tokenOut: string;
+  symbolIn: string;
+  symbolOut: string;
+  decimalsIn: number;
+  decimalsOut: number;
+  reserveIn: BigNumber;
+  reserveOut: BigNumber;
+}
+
+export interface Route {
+  hops: RouteHop[];
+  path: string[];
+  symbols: string[];
+  decimals: number[];
+}
+
+export interface RouteQuote {
+  route: Route;
+  amounts: BigNumber[];
+}
+
+type TokenGraph = Map<string, RouteHop[]>;
+
+// Same constant-product formula (with the 0.3% fee) as Router._getAmountOut
+export function getAmountOut(amountIn: BigNumber, reserveIn: BigNumber, reserveOut: BigNumber): BigNumber {
+  if (amountIn.lte(0) || reserveIn.lte(0) || reserveOut.lte(0)) {
+    return BigNumber.from(0);
+  }
+
+  const amountInWithFee = amountIn.mul(997);
+  const numerator = amountInWithFee.mul(reserveOut);
+  const denominator = reserveIn.mul(1000).add(amountInWithFee);
+  return numerator.div(denominator);
+}
+
+// Same formula (rounded up) as Router._getAmountIn; zero when the output cannot be bought
+export function getAmountIn(amountOut: BigNumber, reserveIn: BigNumber, reserveOut: BigNumber): BigNumber {
+  if (amountOut.lte(0) || reserveIn.lte(0) || reserveOut.lte(amountOut)) {
+    return BigNumber.from(0);
+  }
+
+  const numerator = reserveIn.mul(amountOut).mul(1000);
+  const denominator = reserveOut.sub(amountOut).mul(997);
+  return numerator.div(denominator).add(1);
+}
+
+// Every pool is an edge in both directions, keyed by the lowercased input token
+export function buildTokenGraph(pools: Pool[]): TokenGraph {
+  const graph: TokenGraph = new Map();
+
+  const addEdge = (hop: RouteHop) => {
+    const key = hop.tokenIn.toLowerCase();
+    const edges = graph.get(key) || [];
+    edges.push(hop);
+    graph.set(key, edges);
+  };
+
+  for (const pool of pools) {
+    const [reserve0, reserve1] = pool.reservesRaw;
+
+    addEdge({
+      pairAddress: pool.pairAddress,
+      tokenIn: pool.token0Address,
+      tokenOut: pool.token1Address,
+      symbolIn: pool.token0Symbol,
+      symbolOut: pool.token1Symbol,
+      decimalsIn: pool.token0Decimals,
+      decimalsOut: pool.token1Decimals,
+      reserveIn: reserve0,
+      reserveOut: reserve1,
+    });
+
+    addEdge({
+      pairAddress: pool.pairAddress,
+      tokenIn: pool.token1Address,
+      tokenOut: pool.token0Address,
+      symbolIn: pool.token1Symbol,
+      symbolOut: pool.token0Symbol,
+      decimalsIn: pool.token1Decimals,
+      decimalsOut: pool.token0Decimals,
+      reserveIn: reserve1,
+      reserveOut: reserve0,
+    });
+  }
+
+  return graph;
+}
+
+// Token metadata for an address, taken from whichever pool contains it
+export function findPoolToken(pools: Pool[], address: string): Token | null {
+  const target = address.toLowerCase();
+
+  for (const pool of pools) {
+    if (pool.token0Address.toLowerCase() === target) {
+      return { address: pool.token0Address, symbol: pool.token0Symbol, decimals: pool.token0Decimals };
+    }
+    if (pool.token1Address.toLowerCase() === target) {
+      return { address: pool.token1Address, symbol: pool.token1Symbol, decimals: pool.token1Decimals };
+    }
+  }
+
+  return null;
+}
+
+function toRoute(hops: RouteHop[]): Route {
+  return {
+    hops,
+    path: [hops[0].tokenIn, ...hops.map(hop => hop.tokenOut)],
+    symbols: [hops[0].symbolIn, ...hops.map(hop => hop.symbolOut)],
+    decimals: [hops[0].decimalsIn, ...hops.map(hop => hop.decimalsOut)],
+  };
+}
+
+// Depth-first search for every simple path between two tokens
+export function findRoutes(
+  pools: Pool[],
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number = MAX_HOPS
+): Route[] {
+  const start = tokenIn.toLowerCase();
+  const end = tokenOut.toLowerCase();
+  if (start === end) return [];
+
+  const graph = buildTokenGraph(pools);
+  const routes: Route[] = [];
+  const visited = new Set<string>([start]);
+
+  const visit = (token: string, hops: RouteHop[]) => {
+    if (token === end) {
+      routes.push(toRoute(hops));
+      return;
+    }
+    if (hops.length >= maxHops) return;
+
+    for (const hop of graph.get(token) || []) {
+      const next = hop.tokenOut.toLowerCase();
+      if (visited.has(next)) continue;
+
+      visited.add(next);
+      visit(next, [...hops, hop]);
+      visited.delete(next);
+    }
+  };
+
+  visit(start, []);
+  return routes;
+}
+
+// Amounts at every step of the route, or null if any hop has no liquidity
+export function quoteRoute(route: Route, amountIn: BigNumber): BigNumber[] | null {
+  const amounts = [amountIn];
+
+  for (const hop of route.hops) {
+    const amountOut = getAmountOut(amounts[amounts.length - 1], hop.reserveIn, hop.reserveOut);
+    if (amountOut.isZero()) return null;
+    amounts.push(amountOut);
+  }
+
+  return amounts;
+}
+
+// Amounts at every step needed to receive amountOut, or null if any hop cannot fill it
+export function quoteRouteExactOut(route: Route, amountOut: BigNumber): BigNumber[] | null {
+  const amounts = [amountOut];
+
+  for (let i = route.hops.length - 1; i >= 0; i--) {
+    const hop = route.hops[i];
+    const amountIn = getAmountIn(amounts[0], hop.reserveIn, hop.reserveOut);
+    if (amountIn.isZero()) return null;
+    amounts.unshift(amountIn);
+  }
+
+  return amounts;
+}
+
+export function findBestRoute(
+  pools: Pool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: BigNumber
+): RouteQuote | null {
+  let best: RouteQuote | null = null;
+
+  for (const route of findRoutes(pools, tokenIn, tokenOut)) {
+    const amounts = quoteRoute(route, amountIn);
+    if (!amounts) continue;
+
+    const output = amounts[amounts.length - 1];
+    // Prefer the larger output, and the shorter path when outputs tie
+    if (
+      !best ||
+      output.gt(best.amounts[best.amounts.length - 1]) ||
+      (output.eq(best.amounts[best.amounts.length - 1]) && route.hops.length < best.route.hops.length)
+    ) {
+      best = { route, amounts };
+    }
+  }
+
+  return best;
+}
+
+export function findBestRouteExactOut(
+  pools: Pool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: BigNumber
+): RouteQuote | null {
+  let best: RouteQuote | null = null;
+
+  for (const route of findRoutes(pools, tokenIn, tokenOut)) {
+    const amounts = quoteRouteExactOut(route, amountOut);
+    if (!amounts) continue;
+
+    // Prefer the smaller input, and the shorter path when inputs tie
+    if (
+      !best ||
+      amounts[0].lt(best.amounts[0]) ||
+      (amounts[0].eq(best.amounts[0]) && route.hops.length < best.route.hops.length)
+    ) {
+      best = { route, amounts };
+    }
+  }
+
+  return best;
+}
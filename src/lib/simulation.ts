@@ -0,0 +1,39 @@
+import { BigNumber, ethers } from "ethers";
+
+// Headroom on top of the estimate, since state can shift between the dry run and mining
+const GAS_LIMIT_BUFFER_PERCENT = 20;
+
+export interface Simulation<T> {
+  result: T; // Decoded return value of the dry run
+  gasLimit: BigNumber; // Estimate plus buffer, passed to the real transaction
+  gasCost: BigNumber; // Estimated fee in wei at the current gas price
+}
+
+type WriteFunction<C extends ethers.Contract, M extends keyof C["callStatic"]> =
+  Extract<C["callStatic"][M], (...args: never[]) => Promise<unknown>>;
+
+// Dry-runs `contract.method(...args)` with callStatic and estimateGas; rejects with the revert if it would fail
+export async function simulateTransaction<C extends ethers.Contract, M extends keyof C["callStatic"] & string>(
+  contract: C,
+  method: M,
+  ...args: Parameters<WriteFunction<C, M>>
+): Promise<Simulation<Awaited<ReturnType<WriteFunction<C, M>>>>> {
+  // callStatic first, its revert carries the reason more reliably than estimateGas
+  const result = await contract.callStatic[method](...args);
+
+  const [gasEstimate, gasPrice] = await Promise.all([
+    contract.estimateGas[method](...args),
+    contract.provider.getGasPrice()
+  ]);
+
+  return {
+    result,
+    gasLimit: gasEstimate.mul(100 + GAS_LIMIT_BUFFER_PERCENT).div(100),
+    gasCost: gasEstimate.mul(gasPrice)
+  };
+}
+
+export function formatGasCost(gasCost: BigNumber): string {
+  const eth = parseFloat(ethers.utils.formatEther(gasCost));
+  return eth > 0 && eth < 0.000001 ? "<0.000001 ETH" : `${eth.toFixed(6)} ETH`;
+}
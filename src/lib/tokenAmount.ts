@@ -0,0 +1,76 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { formatNumber } from "@/lib/utils";
+
+export interface Token {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// An amount of a token in its smallest unit. Arithmetic stays in BigNumber;
+// strings only appear at the edges (user input and display).
+export interface TokenAmount {
+  token: Token;
+  raw: BigNumber;
+}
+
+export function tokenAmount(token: Token, raw: BigNumberish): TokenAmount {
+  return { token, raw: BigNumber.from(raw) };
+}
+
+export function zeroAmount(token: Token): TokenAmount {
+  return tokenAmount(token, 0);
+}
+
+// Parses user input such as "1.5". Extra fractional digits beyond the token's
+// decimals are truncated; anything that is not a plain decimal returns null.
+export function parseTokenAmount(token: Token, value: string): TokenAmount | null {
+  const trimmed = value.trim();
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed)) return null;
+
+  const [whole, fraction = ""] = trimmed.split(".");
+  const normalized = `${whole || "0"}.${fraction.slice(0, token.decimals) || "0"}`;
+
+  return tokenAmount(token, ethers.utils.parseUnits(normalized, token.decimals));
+}
+
+// Full-precision decimal string, suitable for feeding back into inputs
+export function toExact(amount: TokenAmount): string {
+  const formatted = ethers.utils.formatUnits(amount.raw, amount.token.decimals);
+  return formatted.endsWith(".0") ? formatted.slice(0, -2) : formatted;
+}
+
+// Compact string for display only
+export function formatTokenAmount(amount: TokenAmount, decimals: number = 4): string {
+  return formatNumber(ethers.utils.formatUnits(amount.raw, amount.token.decimals), decimals);
+}
+
+// amount * numerator / denominator, rounded down
+export function scaleTokenAmount(
+  amount: TokenAmount,
+  numerator: BigNumberish,
+  denominator: BigNumberish
+): TokenAmount {
+  return tokenAmount(amount.token, amount.raw.mul(numerator).div(denominator));
+}
+
+function toBps(percent: number): number {
+  return Math.min(Math.max(Math.round(percent * 100), 0), 10000);
+}
+
+// `percent` of the amount, e.g. percentOf(amount, 25) is a quarter of it
+export function percentOf(amount: TokenAmount, percent: number): TokenAmount {
+  return scaleTokenAmount(amount, toBps(percent), 10000);
+}
+
+export function subtractPercent(amount: TokenAmount, percent: number): TokenAmount {
+  return scaleTokenAmount(amount, 10000 - toBps(percent), 10000);
+}
+
+export function addPercent(amount: TokenAmount, percent: number): TokenAmount {
+  return scaleTokenAmount(amount, 10000 + toBps(percent), 10000);
+}
+
+export function isSameToken(a: Token, b: Token): boolean {
+  return a.address.toLowerCase() === b.address.toLowerCase();
+}
@@ -0,0 +1,33 @@
+import { ethers } from "ethers";
+
+// Tokens pasted into the selector that aren't in any pair or the token factory yet
+function storageKey(chainId: number) {
+  return `minidex:importedTokens:${chainId}`;
+}
+
+export function loadImportedTokens(chainId: number): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(chainId)) || "[]");
+    return Array.isArray(stored) ? stored.filter(address => ethers.utils.isAddress(address)) : [];
+  } catch (error) {
+    console.error("Error loading imported tokens:", error);
+    return [];
+  }
+}
+
+export function saveImportedToken(chainId: number, address: string) {
+  const imported = loadImportedTokens(chainId);
+  if (imported.some(existing => existing.toLowerCase() === address.toLowerCase())) return;
+
+  localStorage.setItem(storageKey(chainId), JSON.stringify([...imported, ethers.utils.getAddress(address)]));
+}
+
+// Case-insensitive union that keeps the first spelling of each address
+export function uniqueAddresses(addresses: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const address of addresses) {
+    const key = address.toLowerCase();
+    if (!seen.has(key)) seen.set(key, address);
+  }
+  return Array.from(seen.values());
+}
@@ -0,0 +1,65 @@
+import { TokenAmount, addPercent, subtractPercent } from "@/lib/tokenAmount";
+
+export const SLIPPAGE_PRESETS = [0.1, 0.5, 1];
+export const DEFAULT_SLIPPAGE = 0.5;
+export const MAX_SLIPPAGE = 50;
+
+export const DEFAULT_DEADLINE_MINUTES = 20;
+export const MAX_DEADLINE_MINUTES = 60 * 24 * 3;
+
+// "exact" approves only what the transaction spends, "unlimited" approves once per token
+export type ApprovalMode = "exact" | "unlimited";
+export const DEFAULT_APPROVAL_MODE: ApprovalMode = "exact";
+
+export interface TransactionSettings {
+  slippage: number; // Percent, e.g. 0.5
+  deadlineMinutes: number;
+  approvalMode: ApprovalMode;
+}
+
+export const DEFAULT_TRANSACTION_SETTINGS: TransactionSettings = {
+  slippage: DEFAULT_SLIPPAGE,
+  deadlineMinutes: DEFAULT_DEADLINE_MINUTES,
+  approvalMode: DEFAULT_APPROVAL_MODE,
+};
+
+export function isValidSlippage(slippage: number): boolean {
+  return !isNaN(slippage) && slippage >= 0 && slippage < MAX_SLIPPAGE;
+}
+
+export function isValidDeadline(minutes: number): boolean {
+  return Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_DEADLINE_MINUTES;
+}
+
+export function isValidApprovalMode(mode: unknown): mode is ApprovalMode {
+  return mode === "exact" || mode === "unlimited";
+}
+
+export function getSlippageWarning(slippage: number): string | null {
+  if (!isValidSlippage(slippage)) return `Enter a slippage tolerance between 0% and ${MAX_SLIPPAGE}%`;
+  if (slippage < 0.05) return "Your transaction may fail if the price moves even slightly";
+  if (slippage > 5) return "Your transaction may be front-run at this tolerance";
+  return null;
+}
+
+export function getDeadlineWarning(minutes: number): string | null {
+  if (!isValidDeadline(minutes)) return `Enter a whole number of minutes between 1 and ${MAX_DEADLINE_MINUTES}`;
+  if (minutes < 2) return "Your transaction may expire before it is mined";
+  if (minutes > 180) return "A pending transaction could execute long after the price has moved";
+  return null;
+}
+
+// Unix timestamp (seconds) after which the Router rejects the transaction
+export function getDeadline(minutes: number): number {
+  return Math.floor(Date.now() / 1000) + 60 * minutes;
+}
+
+// Lower bound accepted for an amount given a slippage tolerance in percent
+export function applySlippage(amount: TokenAmount, slippagePercent: number): TokenAmount {
+  return subtractPercent(amount, slippagePercent);
+}
+
+// Upper bound accepted for an amount given a slippage tolerance in percent
+export function addSlippage(amount: TokenAmount, slippagePercent: number): TokenAmount {
+  return addPercent(amount, slippagePercent);
+}
@@ -0,0 +1,48 @@
+export type TransactionKind =
+  | "approve"
+  | "revoke"
+  | "swap"
+  | "addLiquidity"
+  | "removeLiquidity"
+  | "createPair"
+  | "createToken";
+
+// "dropped": never mined, because the node forgot it or another transaction took its nonce
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "dropped";
+
+export interface TrackedTransaction {
+  hash: string;
+  kind: TransactionKind;
+  summary: string; // e.g. "Swap 10 TKA for 9.87 TKB"
+  nonce: number;
+  status: TransactionStatus;
+  submittedAt: number; // Unix ms
+  finalizedAt?: number; // Unix ms, once confirmed or failed
+  blockNumber?: number;
+  replacedHash?: string; // Original hash when the wallet sped the transaction up and the replacement was mined
+}
+
+// Older entries are dropped so localStorage stays small
+export const MAX_TRANSACTION_HISTORY = 50;
+
+// History is kept separately for every account on every chain
+function storageKey(chainId: number, account: string) {
+  return `minidex:transactions:${chainId}:${account.toLowerCase()}`;
+}
+
+export function loadTransactions(chainId: number, account: string): TrackedTransaction[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(chainId, account)) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error("Error loading transaction history:", error);
+    return [];
+  }
+}
+
+export function saveTransactions(chainId: number, account: string, transactions: TrackedTransaction[]) {
+  localStorage.setItem(
+    storageKey(chainId, account),
+    JSON.stringify(transactions.slice(0, MAX_TRANSACTION_HISTORY))
+  );
+}
@@ -1,32 +1,41 @@
 
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
+import { Eye, Loader2 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { WalletConnect } from "@/components/WalletConnect";
+import { AppHeader } from "@/components/AppHeader";
 import { CreatePool } from "@/components/CreatePool";
 import { AddLiquidity } from "@/components/AddLiquidity";
+import { RemoveLiquidity } from "@/components/RemoveLiquidity";
 import { PoolList } from "@/components/PoolList";
 import { SwapTokens } from "@/components/SwapTokens";
 import { CreateToken } from "@/components/CreateToken";
+import { ProtocolNotDeployed } from "@/components/ProtocolNotDeployed";
+import { WrongNetwork } from "@/components/WrongNetwork";
+import { READ_ONLY_RPC_URL, isSupportedChain } from "@/constants/networks";
 import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useLivePoolUpdates } from "@/hooks/useLivePoolUpdates";
 
 const Index = () => {
-  const { account, chainId } = useWeb3Provider();
+  const { provider, account, chainId } = useWeb3Provider();
+  const { status: deploymentStatus } = useDeployment();
+  // ?tab=swap&tokenIn=..&tokenOut=.. or ?tab=pool&tokenA=..&tokenB=.. open a prefilled form
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = searchParams.get("tab") ?? "swap";
+  useLivePoolUpdates(provider);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-900 to-gray-800 text-white">
-      <header className="border-b border-gray-700 bg-gray-900/80 backdrop-blur-sm sticky top-0 z-10">
-        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
-          <h1 className="text-2xl font-bold text-purple-400">MiniDex</h1>
-          <WalletConnect />
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           <div className="md:col-span-2">
-            {!account ? (
+            {deploymentStatus === "disconnected" ? (
               <Card className="bg-gray-800 border-gray-700">
                 <CardHeader>
                   <CardTitle>Welcome to MiniDex</CardTitle>
@@ -39,76 +48,120 @@ const Index = () => {
                     MiniDex is a minimalist decentralized exchange that allows you to create liquidity pools,
                     add liquidity, and swap tokens with minimal slippage.
                   </p>
+                  <p className="text-sm text-gray-400 mb-4">
+                    Pools can be browsed without a wallet once the node at {READ_ONLY_RPC_URL} is reachable.
+                  </p>
                   <div className="flex justify-center">
                     <WalletConnect />
                   </div>
                 </CardContent>
               </Card>
+            ) : account && !isSupportedChain(chainId) ? (
+              <WrongNetwork />
+            ) : deploymentStatus === "checking" ? (
+              <div className="flex justify-center py-16">
+                <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+              </div>
+            ) : deploymentStatus === "not-deployed" ? (
+              <ProtocolNotDeployed chainId={chainId} />
             ) : (
-              <Tabs defaultValue="swap" className="w-full">
-                <TabsList className="grid grid-cols-4 mb-8">
-                  <TabsTrigger value="swap">Swap</TabsTrigger>
-                  <TabsTrigger value="pool">Add Liquidity</TabsTrigger>
-                  <TabsTrigger value="create">Create Pool</TabsTrigger>
-                  <TabsTrigger value="token">Create Token</TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value="swap">
-                  <Card className="bg-gray-800 border-gray-700">
-                    <CardHeader>
-                      <CardTitle>Swap Tokens</CardTitle>
-                      <CardDescription className="text-gray-400">
-                        Swap between any two tokens with minimal slippage
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <SwapTokens />
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="pool">
-                  <Card className="bg-gray-800 border-gray-700">
-                    <CardHeader>
-                      <CardTitle>Add Liquidity</CardTitle>
-                      <CardDescription className="text-gray-400">
-                        Add liquidity to an existing pool and receive LP tokens
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <AddLiquidity />
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="create">
-                  <Card className="bg-gray-800 border-gray-700">
-                    <CardHeader>
-                      <CardTitle>Create Liquidity Pool</CardTitle>
-                      <CardDescription className="text-gray-400">
-                        Create a new liquidity pool for any ERC20 token pair
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <CreatePool />
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="token">
-                  <Card className="bg-gray-800 border-gray-700">
-                    <CardHeader>
-                      <CardTitle>Create ERC20 Token</CardTitle>
-                      <CardDescription className="text-gray-400">
-                        Create your own ERC20 token for testing with the DEX
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <CreateToken />
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-              </Tabs>
+              <>
+                {!account && (
+                  <div className="flex items-center gap-2 mb-4 p-3 rounded-md bg-gray-800 border border-gray-700 text-sm text-gray-300">
+                    <Eye className="h-4 w-4 text-purple-400 shrink-0" />
+                    You are browsing read-only. Connect a wallet to swap, add liquidity or create pools.
+                  </div>
+                )}
+                <Tabs
+                  value={tab}
+                  onValueChange={value => setSearchParams({ tab: value }, { replace: true })}
+                  className="w-full"
+                >
+                  <TabsList className="grid grid-cols-5 mb-8">
+                    <TabsTrigger value="swap">Swap</TabsTrigger>
+                    <TabsTrigger value="pool">Add Liquidity</TabsTrigger>
+                    <TabsTrigger value="remove">Remove Liquidity</TabsTrigger>
+                    <TabsTrigger value="create">Create Pool</TabsTrigger>
+                    <TabsTrigger value="token">Create Token</TabsTrigger>
+                  </TabsList>
+                  
+                  <TabsContent value="swap">
+                    <Card className="bg-gray-800 border-gray-700">
+                      <CardHeader>
+                        <CardTitle>Swap Tokens</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Swap between any two tokens with minimal slippage
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <SwapTokens
+                          defaultTokenIn={searchParams.get("tokenIn") ?? ""}
+                          defaultTokenOut={searchParams.get("tokenOut") ?? ""}
+                        />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                  
+                  <TabsContent value="pool">
+                    <Card className="bg-gray-800 border-gray-700">
+                      <CardHeader>
+                        <CardTitle>Add Liquidity</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Add liquidity to an existing pool and receive LP tokens
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <AddLiquidity
+                          defaultTokenA={searchParams.get("tokenA") ?? ""}
+                          defaultTokenB={searchParams.get("tokenB") ?? ""}
+                        />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                  
+                  <TabsContent value="remove">
+                    <Card className="bg-gray-800 border-gray-700">
+                      <CardHeader>
+                        <CardTitle>Remove Liquidity</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Burn your LP tokens to withdraw the underlying tokens from a pool
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <RemoveLiquidity />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                  
+                  <TabsContent value="create">
+                    <Card className="bg-gray-800 border-gray-700">
+                      <CardHeader>
+                        <CardTitle>Create Liquidity Pool</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Create a new liquidity pool for any ERC20 token pair
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <CreatePool />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                  
+                  <TabsContent value="token">
+                    <Card className="bg-gray-800 border-gray-700">
+                      <CardHeader>
+                        <CardTitle>Create ERC20 Token</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Create your own ERC20 token for testing with the DEX
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <CreateToken />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                </Tabs>
+              </>
             )}
           </div>
           
@@ -0,0 +1,195 @@
+import { ReactNode } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, ArrowRightLeft, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AppHeader } from "@/components/AppHeader";
+import { ProtocolNotDeployed } from "@/components/ProtocolNotDeployed";
+import { WrongNetwork } from "@/components/WrongNetwork";
+import { PoolActivityTable } from "@/components/pool/PoolActivityTable";
+import { PoolHistoryChart } from "@/components/pool/PoolHistoryChart";
+import { READ_ONLY_RPC_URL, isSupportedChain } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { useLivePoolUpdates } from "@/hooks/useLivePoolUpdates";
+import { PoolDetails, usePoolDetails } from "@/hooks/usePoolDetails";
+import { getPrice } from "@/lib/liquidity";
+import { formatTokenAmount } from "@/lib/tokenAmount";
+import { formatNumber } from "@/lib/utils";
+
+// Swaps, mints and burns shown under the pool stats
+const ACTIVITY_LIMIT = 25;
+
+function Stat({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-md p-4">
+      <div className="text-sm text-gray-400 mb-1">{label}</div>
+      <div className="font-semibold">{children}</div>
+    </div>
+  );
+}
+
+function PoolStats({ pool }: { pool: PoolDetails }) {
+  const { token0, token1, reserve0, reserve1 } = pool;
+  const price0 = getPrice(reserve0, reserve1);
+  const hasLiquidity = price0 > 0;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <Stat label="Reserves">
+        <div>{formatTokenAmount(reserve0)} {token0.symbol}</div>
+        <div>{formatTokenAmount(reserve1)} {token1.symbol}</div>
+      </Stat>
+      <Stat label="Spot price">
+        {hasLiquidity ? (
+          <>
+            <div>1 {token0.symbol} = {formatNumber(price0, 6)} {token1.symbol}</div>
+            <div>1 {token1.symbol} = {formatNumber(1 / price0, 6)} {token0.symbol}</div>
+          </>
+        ) : (
+          <span className="text-gray-400">No liquidity yet</span>
+        )}
+      </Stat>
+      <Stat label="LP token supply">
+        {formatTokenAmount(pool.totalSupply, 6)} {pool.totalSupply.token.symbol}
+      </Stat>
+      <Stat label="Reserves last updated">
+        {pool.blockTimestampLast > 0
+          ? new Date(pool.blockTimestampLast * 1000).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+          : <span className="text-gray-400">Never</span>}
+      </Stat>
+    </div>
+  );
+}
+
+function PoolContent({ pairAddress }: { pairAddress: string }) {
+  const { pool, isLoading, error, activity, activityLoading, activityError } =
+    usePoolDetails(pairAddress, ACTIVITY_LIMIT);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  if (error || !pool) {
+    return <div className="text-center text-red-400 py-16">{error ?? "Pool not found"}</div>;
+  }
+
+  const { token0, token1 } = pool;
+  const swapLink = `/?${new URLSearchParams({ tab: "swap", tokenIn: token0.address, tokenOut: token1.address })}`;
+  const addLiquidityLink = `/?${new URLSearchParams({ tab: "pool", tokenA: token0.address, tokenB: token1.address })}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">
+            <span className="text-green-400">{token0.symbol}</span>
+            <span className="text-gray-400"> / </span>
+            <span className="text-green-400">{token1.symbol}</span>
+          </h2>
+          <div className="text-sm text-gray-400">
+            {token0.name} · {token1.name}
+          </div>
+          <div className="font-mono text-xs text-gray-500 mt-1">{pool.pairAddress}</div>
+        </div>
+        <div className="flex space-x-2">
+          <Button asChild className="bg-purple-600 hover:bg-purple-700">
+            <Link to={swapLink}>
+              <ArrowRightLeft className="mr-2 h-4 w-4" />
+              Swap
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="border-purple-500 text-purple-300 hover:bg-purple-900/20">
+            <Link to={addLiquidityLink}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add liquidity
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <PoolStats pool={pool} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+        {[token0, token1].map(token => (
+          <div key={token.address} className="bg-gray-800 border border-gray-700 rounded-md p-3">
+            <span className="text-gray-400">{token.symbol}: </span>
+            <span className="font-mono">{token.address}</span>
+          </div>
+        ))}
+      </div>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription className="text-gray-400">
+            Rebuilt from the pair's Sync and Swap events since it was created
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PoolHistoryChart pool={pool} />
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle>Recent Activity</CardTitle>
+          <CardDescription className="text-gray-400">
+            The last {ACTIVITY_LIMIT} swaps, deposits and withdrawals decoded from the pair's logs
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PoolActivityTable
+            activity={activity}
+            token0={token0}
+            token1={token1}
+            isLoading={activityLoading}
+            error={activityError}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const Pool = () => {
+  const { pairAddress = "" } = useParams();
+  const { provider, account, chainId } = useWeb3Provider();
+  const { status: deploymentStatus } = useDeployment();
+  useLivePoolUpdates(provider);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-gray-800 text-white">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8">
+        <Link to="/" className="inline-flex items-center text-sm text-gray-400 hover:text-purple-300 mb-6">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          All pools
+        </Link>
+
+        {account && !isSupportedChain(chainId) ? (
+          <WrongNetwork />
+        ) : deploymentStatus === "disconnected" ? (
+          <div className="text-center text-gray-400 py-16">
+            Connect a wallet, or start the node at {READ_ONLY_RPC_URL}, to view this pool.
+          </div>
+        ) : deploymentStatus === "not-deployed" ? (
+          <ProtocolNotDeployed chainId={chainId} />
+        ) : deploymentStatus === "checking" ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+          </div>
+        ) : (
+          <PoolContent pairAddress={pairAddress} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Pool;
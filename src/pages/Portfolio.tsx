@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AppHeader } from "@/components/AppHeader";
+import { WalletConnect } from "@/components/WalletConnect";
+import { ProtocolNotDeployed } from "@/components/ProtocolNotDeployed";
+import { WrongNetwork } from "@/components/WrongNetwork";
+import { PositionRow, PositionsTable } from "@/components/portfolio/PositionsTable";
+import { TokenBalanceRow, TokenBalancesTable } from "@/components/portfolio/TokenBalancesTable";
+import { isSupportedChain } from "@/constants/networks";
+import { useWeb3Provider } from "@/hooks/useWeb3Provider";
+import { useDeployment } from "@/hooks/useDeployment";
+import { usePools } from "@/hooks/usePools";
+import { useLivePoolUpdates } from "@/hooks/useLivePoolUpdates";
+import { useLiquidityPositions } from "@/hooks/useLiquidityPositions";
+import { useTokenBalances } from "@/hooks/useTokenBalances";
+import { getRemoveLiquidityAmounts } from "@/lib/liquidity";
+import { getMostConnectedToken, getPoolTokens, getSpotPrices, getValue } from "@/lib/portfolio";
+import { formatNumber } from "@/lib/utils";
+
+const sumValues = (rows: { value: number | null }[]) =>
+  rows.reduce((total, row) => total + (row.value ?? 0), 0);
+
+function PortfolioContent() {
+  const { provider, account } = useWeb3Provider();
+  const { pools, isLoading: poolsLoading, error: poolsError } = usePools(provider);
+  const { positions, isLoading: positionsLoading, error: positionsError } =
+    useLiquidityPositions(pools, provider, account);
+
+  const tokens = useMemo(() => getPoolTokens(pools), [pools]);
+  // Sync events hand out a new pool list; only refetch balances when the set of tokens changes
+  const tokenKey = tokens.map(token => token.address).join(",");
+  const tokenAddresses = useMemo(() => (tokenKey ? tokenKey.split(",") : []), [tokenKey]);
+  const { tokenBalances, isLoading: balancesLoading } = useTokenBalances(tokenAddresses, provider, account);
+
+  const [selectedQuote, setSelectedQuote] = useState<string | null>(null);
+  // Same default as the pool list, so both value things in the same token until the user picks another
+  const defaultQuote = useMemo(() => getMostConnectedToken(pools), [pools]);
+  const quoteToken = tokens.find(token => token.address === selectedQuote) ?? defaultQuote;
+  const prices = useMemo(
+    () => (quoteToken ? getSpotPrices(pools, quoteToken.address) : new Map<string, number>()),
+    [pools, quoteToken]
+  );
+
+  const positionRows = useMemo<PositionRow[]>(() => positions.map(position => {
+    const [amount0, amount1] = getRemoveLiquidityAmounts(
+      position.lpBalance.raw,
+      position.reserve0,
+      position.reserve1,
+      position.totalSupply
+    );
+    const value0 = getValue(amount0, prices);
+    const value1 = getValue(amount1, prices);
+
+    return {
+      position,
+      amount0,
+      amount1,
+      value: value0 === null || value1 === null ? null : value0 + value1
+    };
+  }), [positions, prices]);
+
+  const tokenRows = useMemo<TokenBalanceRow[]>(() => tokens.flatMap(token => {
+    const balance = tokenBalances[token.address];
+    if (!balance) return [];
+
+    return [{
+      balance: balance.balanceAmount,
+      price: prices.get(token.address.toLowerCase()) ?? null,
+      value: getValue(balance.balanceAmount, prices)
+    }];
+  }), [tokens, tokenBalances, prices]);
+
+  const positionsValue = sumValues(positionRows);
+  const tokensValue = sumValues(tokenRows);
+  const quoteSymbol = quoteToken?.symbol ?? "";
+
+  if (poolsLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  if (poolsError) {
+    return <div className="text-center text-red-400 py-16">{poolsError}</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="grid grid-cols-3 gap-4 flex-1 min-w-[320px]">
+          {[
+            { label: "Total value", value: positionsValue + tokensValue },
+            { label: "Liquidity positions", value: positionsValue },
+            { label: "Wallet tokens", value: tokensValue },
+          ].map(stat => (
+            <div key={stat.label} className="bg-gray-800 border border-gray-700 rounded-md p-4">
+              <div className="text-sm text-gray-400">{stat.label}</div>
+              <div className="text-xl font-semibold">
+                {formatNumber(stat.value, 2)} <span className="text-sm text-gray-400">{quoteSymbol}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {tokens.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm text-gray-400">Value in</div>
+            <Select value={quoteToken?.address} onValueChange={setSelectedQuote}>
+              <SelectTrigger className="w-[160px] bg-gray-700 border-gray-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700 text-white">
+                {tokens.map(token => (
+                  <SelectItem key={token.address} value={token.address}>{token.symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle>Liquidity Positions</CardTitle>
+          <CardDescription className="text-gray-400">
+            Pools where this account holds LP tokens, valued at current reserve prices
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PositionsTable
+            rows={positionRows}
+            totalValue={positionsValue}
+            quoteSymbol={quoteSymbol}
+            isLoading={positionsLoading && positions.length === 0}
+            error={positionsError}
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle>Token Balances</CardTitle>
+          <CardDescription className="text-gray-400">
+            Every token traded in a MiniDex pool. Tokens with no pool path to {quoteSymbol || "the quote token"} are left out of the totals.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TokenBalancesTable
+            rows={tokenRows}
+            totalValue={tokensValue}
+            quoteSymbol={quoteSymbol}
+            isLoading={balancesLoading}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const Portfolio = () => {
+  const { provider, account, chainId } = useWeb3Provider();
+  const { status: deploymentStatus } = useDeployment();
+  useLivePoolUpdates(provider);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-gray-800 text-white">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8">
+        <h2 className="text-2xl font-semibold mb-6">Portfolio</h2>
+
+        {!account ? (
+          <Card className="bg-gray-800 border-gray-700">
+            <CardHeader>
+              <CardTitle>Connect your wallet</CardTitle>
+              <CardDescription className="text-gray-400">
+                Your liquidity positions and token balances show up here once a wallet is connected
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-center">
+              <WalletConnect />
+            </CardContent>
+          </Card>
+        ) : !isSupportedChain(chainId) ? (
+          <WrongNetwork />
+        ) : deploymentStatus === "checking" ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+          </div>
+        ) : deploymentStatus === "not-deployed" ? (
+          <ProtocolNotDeployed chainId={chainId} />
+        ) : (
+          <PortfolioContent />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Portfolio;
@@ -1,13 +1,14 @@
 
 /// <reference types="vite/client" />
 
-interface Window {
-  ethereum?: {
-    isMetaMask?: boolean;
-    request: (args: { method: string; params?: any[] }) => Promise<any>;
-    on: (event: string, callback: (...args: any[]) => void) => void;
-    removeListener: (event: string, callback: (...args: any[]) => void) => void;
-    removeAllListeners: (event: string) => void;
-  };
+interface ImportMetaEnv {
+  readonly VITE_RPC_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
 }
 
+interface Window {
+  ethereum?: import("@/lib/eip6963").EIP1193Provider;
+}
@@ -6,6 +6,7 @@ import "forge-std/Test.sol";
 import "../src/MiniDexFactory.sol";
 import "../src/MiniDexPair.sol";
 import "../src/Router.sol";
+import "../src/Multicall.sol";
 import "../src/interfaces/IERC20.sol";
 import "./mocks/ERC20Mock.sol";
 
@@ -164,6 +165,177 @@ contract MiniDexTest is Test {
         vm.stopPrank();
     }
     
+    function testSwapTokensForExactTokens() public {
+        // Add liquidity with Alice
+        vm.startPrank(alice);
+        router.addLiquidity(
+            address(tokenA),
+            address(tokenB),
+            1000 ether,
+            1000 ether,
+            0,
+            0,
+            alice,
+            block.timestamp + 1
+        );
+        vm.stopPrank();
+        
+        // Bob buys exactly 10 tokenB
+        vm.startPrank(bob);
+        
+        address[] memory path = new address[](2);
+        path[0] = address(tokenA);
+        path[1] = address(tokenB);
+        
+        uint[] memory quoted = router.getAmountsIn(10 ether, path);
+        uint bobTokenBBalanceBefore = tokenB.balanceOf(bob);
+        
+        uint[] memory amounts = router.swapTokensForExactTokens(
+            10 ether,
+            quoted[0],
+            path,
+            bob,
+            block.timestamp + 1
+        );
+        
+        // Verify Bob received exactly the requested amount and paid the quoted input
+        assertEq(amounts[0], quoted[0]);
+        assertEq(tokenB.balanceOf(bob) - bobTokenBBalanceBefore, 10 ether);
+        assertEq(tokenA.balanceOf(bob), 10000 ether - quoted[0]);
+        
+        vm.stopPrank();
+    }
+    
+    function testSwapTokensForExactTokensExcessiveInput() public {
+        vm.startPrank(alice);
+        router.addLiquidity(
+            address(tokenA),
+            address(tokenB),
+            1000 ether,
+            1000 ether,
+            0,
+            0,
+            alice,
+            block.timestamp + 1
+        );
+        vm.stopPrank();
+        
+        vm.startPrank(bob);
+        
+        address[] memory path = new address[](2);
+        path[0] = address(tokenA);
+        path[1] = address(tokenB);
+        
+        uint[] memory quoted = router.getAmountsIn(10 ether, path);
+        
+        // A maximum input below the quote must revert
+        vm.expectRevert("Router: EXCESSIVE_INPUT_AMOUNT");
+        router.swapTokensForExactTokens(
+            10 ether,
+            quoted[0] - 1,
+            path,
+            bob,
+            block.timestamp + 1
+        );
+        
+        vm.stopPrank();
+    }
+    
+    // Pools A-B (1:2) and B-C (1:1) for routing A -> B -> C; returns token C
+    function _addMultiHopPools() internal returns (ERC20Mock tokenC) {
+        tokenC = new ERC20Mock("Token C", "TKC", 18);
+        tokenC.mint(alice, 10000 ether);
+        
+        vm.startPrank(alice);
+        tokenC.approve(address(router), type(uint256).max);
+        router.addLiquidity(
+            address(tokenA),
+            address(tokenB),
+            1000 ether,
+            2000 ether,
+            0,
+            0,
+            alice,
+            block.timestamp + 1
+        );
+        router.addLiquidity(
+            address(tokenB),
+            address(tokenC),
+            2000 ether,
+            2000 ether,
+            0,
+            0,
+            alice,
+            block.timestamp + 1
+        );
+        vm.stopPrank();
+    }
+    
+    function testMultiHopSwap() public {
+        ERC20Mock tokenC = _addMultiHopPools();
+        
+        vm.startPrank(bob);
+        // Without an allowance on the intermediate token, any pull of it would revert
+        tokenB.approve(address(router), 0);
+        
+        address[] memory path = new address[](3);
+        path[0] = address(tokenA);
+        path[1] = address(tokenB);
+        path[2] = address(tokenC);
+        
+        uint[] memory quoted = router.getAmountsOut(10 ether, path);
+        uint[] memory amounts = router.swapExactTokensForTokens(
+            10 ether,
+            quoted[2],
+            path,
+            bob,
+            block.timestamp + 1
+        );
+        
+        // Bob pays only the input, receives the quoted output and never touches the intermediate token
+        assertEq(amounts[2], quoted[2]);
+        assertEq(tokenA.balanceOf(bob), 10000 ether - 10 ether);
+        assertEq(tokenB.balanceOf(bob), 10000 ether);
+        assertEq(tokenC.balanceOf(bob), quoted[2]);
+        
+        vm.stopPrank();
+    }
+    
+    function testMultiHopSwapTokensForExactTokens() public {
+        ERC20Mock tokenC = _addMultiHopPools();
+        
+        vm.startPrank(bob);
+        tokenB.approve(address(router), 0);
+        
+        address[] memory path = new address[](3);
+        path[0] = address(tokenA);
+        path[1] = address(tokenB);
+        path[2] = address(tokenC);
+        
+        uint[] memory quoted = router.getAmountsIn(5 ether, path);
+        // The intermediate amount is larger than the input, so it must not count against amountInMax
+        assertGt(quoted[1], quoted[0]);
+        
+        vm.expectRevert("Router: EXCESSIVE_INPUT_AMOUNT");
+        router.swapTokensForExactTokens(5 ether, quoted[0] - 1, path, bob, block.timestamp + 1);
+        
+        uint[] memory amounts = router.swapTokensForExactTokens(
+            5 ether,
+            quoted[0],
+            path,
+            bob,
+            block.timestamp + 1
+        );
+        
+        // Bob pays the quoted input once and receives exactly the requested output
+        assertEq(amounts[0], quoted[0]);
+        assertEq(tokenA.balanceOf(bob), 10000 ether - quoted[0]);
+        assertEq(tokenB.balanceOf(bob), 10000 ether);
+        assertEq(tokenC.balanceOf(bob), 5 ether);
+        
+        vm.stopPrank();
+    }
+    
     function testMultiplePoolsAndArbitrage() public {
         // Create another token for a third pool
         ERC20Mock tokenC = new ERC20Mock("Token C", "TKC", 18);
@@ -272,4 +444,27 @@ contract MiniDexTest is Test {
         
         vm.stopPrank();
     }
+    
+    function testMulticallTryAggregate() public {
+        factory.createPair(address(tokenA), address(tokenB));
+        pair = factory.getPair(address(tokenA), address(tokenB));
+        
+        Multicall multicall = new Multicall();
+        Multicall.Call[] memory calls = new Multicall.Call[](3);
+        calls[0] = Multicall.Call(address(factory), abi.encodeWithSignature("allPairsLength()"));
+        calls[1] = Multicall.Call(pair, abi.encodeWithSignature("token0()"));
+        // Not a function on the factory, so this call fails
+        calls[2] = Multicall.Call(address(factory), abi.encodeWithSignature("token0()"));
+        
+        Multicall.Result[] memory results = multicall.tryAggregate(false, calls);
+        
+        assertTrue(results[0].success);
+        assertEq(abi.decode(results[0].returnData, (uint256)), 1);
+        assertTrue(results[1].success);
+        assertEq(abi.decode(results[1].returnData, (address)), MiniDexPair(pair).token0());
+        assertFalse(results[2].success);
+        
+        vm.expectRevert("Multicall: CALL_FAILED");
+        multicall.aggregate(calls);
+    }
 }